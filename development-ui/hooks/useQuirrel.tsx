@@ -301,9 +301,7 @@ async function isHealthy(
 }
 
 async function getAllEndpoints(client: QuirrelClient<any>) {
-  const endpointsRes = await client.getQueuedEndpoints();
-
-  return (await endpointsRes.json()) as string[];
+  return await client.getQueuedEndpoints();
 }
 
 export function QuirrelProvider(props: PropsWithChildren<{}>) {
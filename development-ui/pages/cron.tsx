@@ -22,6 +22,10 @@ export default function Cron() {
             title: "Schedule",
             render: (job) => job.repeat?.cron ?? "",
           },
+          {
+            title: "Timezone",
+            render: (job) => job.repeat?.timezone ?? "UTC",
+          },
           {
             title: "ID",
             render: (job) => job.id,
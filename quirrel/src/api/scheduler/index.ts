@@ -6,6 +6,7 @@ import tokensPlugin from "./tokens";
 import tokensRoute from "./routes/tokens";
 import health from "./routes/health";
 import queues from "./routes/queues";
+import failed from "./routes/failed";
 import usageRoute from "./routes/usage";
 import swagger from "fastify-swagger";
 import pack from "../../../package.json";
@@ -150,6 +151,7 @@ export async function createServer({
   app.register(indexRoute);
   app.register(health, { prefix: "/health" });
   app.register(queues, { prefix: "/queues" });
+  app.register(failed, { prefix: "/failed" });
   app.register(activityPlugin, { prefix: "/activity" });
 
   app.ready(async () => {
@@ -6,7 +6,12 @@ import {
 } from "../shared/queue-descriptor";
 
 import * as uuid from "uuid";
-import { createOwl, cron } from "../shared/owl";
+import {
+  createOwl,
+  cron,
+  decodeCronScheduleMeta,
+  encodeCronScheduleMeta,
+} from "../shared/owl";
 import type { Job } from "@quirrel/owl";
 
 interface PaginationOpts {
@@ -27,6 +32,7 @@ interface JobDTO {
     times?: number;
     count: number;
     cron?: string;
+    timezone?: string;
   };
 }
 
@@ -42,6 +48,11 @@ export class JobsRepo {
   private static toJobDTO(job: Job<"every" | "cron">): JobDTO {
     const { endpoint } = decodeQueueDescriptor(job.queue);
 
+    const cronSchedule =
+      job.schedule?.type === "cron"
+        ? decodeCronScheduleMeta(job.schedule.meta)
+        : undefined;
+
     return {
       id: job.id,
       endpoint,
@@ -53,7 +64,8 @@ export class JobsRepo {
       repeat: job.schedule
         ? {
             count: job.count,
-            cron: job.schedule?.type === "cron" ? job.schedule.meta : undefined,
+            cron: cronSchedule?.expression,
+            timezone: cronSchedule?.timezone,
             every:
               job.schedule?.type === "every" ? +job.schedule.meta : undefined,
             times: job.schedule?.times,
@@ -167,7 +179,10 @@ export class JobsRepo {
     }
 
     if (repeat?.cron) {
-      runAt = cron(runAt ?? new Date(), repeat.cron);
+      runAt = cron(
+        runAt ?? new Date(),
+        encodeCronScheduleMeta(repeat.cron, repeat.timezone)
+      );
     }
 
     if (typeof repeat?.times === "number" && repeat.times < 1) {
@@ -179,7 +194,7 @@ export class JobsRepo {
 
     if (repeat?.cron) {
       schedule_type = "cron";
-      schedule_meta = repeat.cron;
+      schedule_meta = encodeCronScheduleMeta(repeat.cron, repeat.timezone);
     }
 
     if (repeat?.every) {
@@ -187,8 +202,10 @@ export class JobsRepo {
       schedule_meta = "" + repeat.every;
     }
 
+    const queue = encodeQueueDescriptor(tokenId, endpoint);
+
     const createdJob = await this.producer.enqueue({
-      queue: encodeQueueDescriptor(tokenId, endpoint),
+      queue,
       id,
       payload: body ?? "",
       runAt,
@@ -204,6 +221,14 @@ export class JobsRepo {
       retry,
     });
 
+    // Owl returns the enqueued job even if an existing one was kept
+    if (!override) {
+      const storedJob = await this.producer.findById(queue, id);
+      if (storedJob) {
+        return JobsRepo.toJobDTO(storedJob);
+      }
+    }
+
     return JobsRepo.toJobDTO(createdJob);
   }
 
@@ -0,0 +1,111 @@
+import { FastifyPluginCallback } from "fastify";
+
+import EndpointParamsSchema from "../schemas/queues/endpoint-params.json";
+import EndpointJobIDParamsSchema from "../schemas/queues/endpoint-jobid-params.json";
+import { EnqueueJob } from "../types/queues/POST/body";
+import { QueuesEndpointParams } from "../types/queues/endpoint-params";
+import { QueuesEndpointIdParams } from "../types/queues/endpoint-jobid-params";
+
+import { JobsRepo } from "../jobs-repo";
+import { DeadLetterRepo } from "../../shared/dead-letter-repo";
+
+const failed: FastifyPluginCallback = (fastify, opts, done) => {
+  const jobsRepo = new JobsRepo(fastify.redisFactory);
+  const deadLetterRepo = new DeadLetterRepo(fastify.redis);
+
+  fastify.addHook("preValidation", fastify.tokenAuthPreValidation);
+
+  const baseSchema = {
+    tags: ["Queueing"],
+    security: fastify.authEnabled
+      ? [
+          {
+            Admin: [],
+            Impersonation: [],
+          },
+        ]
+      : undefined,
+  };
+
+  fastify.get<{ Params: QueuesEndpointParams }>("/:endpoint", {
+    schema: {
+      ...baseSchema,
+      params: EndpointParamsSchema,
+      summary: "List failed jobs",
+      description:
+        "Lists jobs that failed on their last attempt and won't be executed again, most recent failure first.",
+    },
+    async handler(request, reply) {
+      fastify.telemetrist?.dispatch("get_failed");
+
+      const jobs = await deadLetterRepo.find(
+        request.tokenId,
+        request.params.endpoint
+      );
+
+      reply.status(200).send(jobs);
+    },
+  });
+
+  fastify.post<{ Params: QueuesEndpointIdParams }>("/:endpoint/:id", {
+    schema: {
+      ...baseSchema,
+      params: EndpointJobIDParamsSchema,
+      summary: "Retry failed job",
+      description:
+        "Enqueues a failed job for immediate execution, replacing a job with the same ID.",
+    },
+    async handler(request, reply) {
+      fastify.telemetrist?.dispatch("retry_failed");
+
+      const { tokenId } = request;
+      const { endpoint, id } = request.params;
+
+      const failedJob = await deadLetterRepo.take(tokenId, endpoint, id);
+      if (!failedJob) {
+        return reply.status(404).send();
+      }
+
+      const job = await jobsRepo.enqueue(tokenId, endpoint, {
+        id,
+        body: failedJob.body,
+        exclusive: failedJob.exclusive,
+        retry: failedJob.retry as EnqueueJob["retry"],
+        override: true,
+      });
+
+      fastify.logger?.jobCreated({ ...job, tokenId });
+
+      reply.status(201).send(job);
+    },
+  });
+
+  fastify.delete<{ Params: QueuesEndpointIdParams }>("/:endpoint/:id", {
+    schema: {
+      ...baseSchema,
+      params: EndpointJobIDParamsSchema,
+      summary: "Discard failed job",
+    },
+    async handler(request, reply) {
+      fastify.telemetrist?.dispatch("discard_failed");
+
+      const { endpoint, id } = request.params;
+
+      const discarded = await deadLetterRepo.delete(
+        request.tokenId,
+        endpoint,
+        id
+      );
+
+      reply.status(discarded ? 204 : 404).send();
+    },
+  });
+
+  fastify.addHook("onClose", async () => {
+    await jobsRepo.close();
+  });
+
+  done();
+};
+
+export default failed;
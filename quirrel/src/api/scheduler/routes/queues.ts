@@ -12,6 +12,7 @@ import { QueuesEndpointIdParams } from "../types/queues/endpoint-jobid-params";
 import { JobsRepo } from "../jobs-repo";
 import { QueueRepo } from "../queue-repo";
 import { isValidRegex } from "../../../shared/is-valid-regex";
+import { isValidTimezone } from "../../../shared/cron";
 
 const jobs: FastifyPluginCallback = (fastify, opts, done) => {
   const jobsRepo = new JobsRepo(fastify.redisFactory);
@@ -27,6 +28,14 @@ const jobs: FastifyPluginCallback = (fastify, opts, done) => {
     return true;
   }
 
+  function hasValidTimezone(body: EnqueueJob): boolean {
+    if (body.repeat?.timezone) {
+      return !!body.repeat.cron && isValidTimezone(body.repeat.timezone);
+    }
+
+    return true;
+  }
+
   const baseSchema = {
     tags: ["Queueing"],
     security: fastify.authEnabled
@@ -46,6 +55,13 @@ const jobs: FastifyPluginCallback = (fastify, opts, done) => {
       "body.repeat.cron uses unsupported syntax. See https://github.com/harrisiirak/cron-parser for reference.",
   };
 
+  const INVALID_TIMEZONE_ERROR = {
+    statusCode: 400,
+    error: "Bad Request",
+    message:
+      "body.repeat.timezone needs to be an IANA time zone, and can only be used together with body.repeat.cron.",
+  };
+
   fastify.post<{ Body: EnqueueJob; Params: QueuesEndpointParams }>(
     "/:endpoint",
     {
@@ -66,6 +82,10 @@ const jobs: FastifyPluginCallback = (fastify, opts, done) => {
         return reply.status(400).send(INVALID_CRON_EXPRESSION_ERROR);
       }
 
+      if (!hasValidTimezone(body)) {
+        return reply.status(400).send(INVALID_TIMEZONE_ERROR);
+      }
+
       const job = await jobsRepo.enqueue(tokenId, endpoint, body);
 
       fastify.logger?.jobCreated({ ...job, tokenId });
@@ -110,6 +130,10 @@ const jobs: FastifyPluginCallback = (fastify, opts, done) => {
         return reply.status(400).send(INVALID_CRON_EXPRESSION_ERROR);
       }
 
+      if (!body.every(hasValidTimezone)) {
+        return reply.status(400).send(INVALID_TIMEZONE_ERROR);
+      }
+
       const jobs = await Promise.all(
         body.map((b) => jobsRepo.enqueue(tokenId, endpoint, b))
       );
@@ -154,6 +178,7 @@ const jobs: FastifyPluginCallback = (fastify, opts, done) => {
         request.params.endpoint,
         {
           cursor: request.query.cursor ?? 0,
+          count: request.query.count,
         }
       );
 
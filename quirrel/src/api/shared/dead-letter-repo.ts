@@ -0,0 +1,72 @@
+import type { Redis } from "ioredis";
+import { encodeQueueDescriptor } from "./queue-descriptor";
+
+export interface FailedJob {
+  id: string;
+  endpoint: string;
+  body: string;
+  exclusive: boolean;
+  retry: number[];
+  attempts: number;
+  responseStatus?: number;
+  responseBody?: string;
+  error?: string;
+  failedAt: string;
+}
+
+function failedKey(tokenId: string, endpoint: string) {
+  return `failed:${encodeQueueDescriptor(tokenId, endpoint)}`;
+}
+
+/**
+ * Keeps jobs that failed for good, so they can be inspected and retried.
+ * A job that fails again replaces its previous entry.
+ */
+export class DeadLetterRepo {
+  constructor(private readonly redis: Redis) {}
+
+  async add(tokenId: string, job: FailedJob) {
+    await this.redis.hset(
+      failedKey(tokenId, job.endpoint),
+      job.id,
+      JSON.stringify(job)
+    );
+  }
+
+  async find(tokenId: string, endpoint: string): Promise<FailedJob[]> {
+    const entries = await this.redis.hvals(failedKey(tokenId, endpoint));
+
+    return entries
+      .map((entry): FailedJob => JSON.parse(entry))
+      .sort((a, b) => b.failedAt.localeCompare(a.failedAt));
+  }
+
+  /**
+   * Removes a failed job and returns it.
+   * If it's taken concurrently, only one caller receives it.
+   */
+  async take(
+    tokenId: string,
+    endpoint: string,
+    id: string
+  ): Promise<FailedJob | null> {
+    const key = failedKey(tokenId, endpoint);
+
+    const entry = await this.redis.hget(key, id);
+    if (!entry) {
+      return null;
+    }
+
+    const removed = await this.redis.hdel(key, id);
+    if (removed === 0) {
+      return null;
+    }
+
+    return JSON.parse(entry);
+  }
+
+  async delete(tokenId: string, endpoint: string, id: string) {
+    const removed = await this.redis.hdel(failedKey(tokenId, endpoint), id);
+    return removed > 0;
+  }
+}
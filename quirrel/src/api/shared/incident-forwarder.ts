@@ -14,7 +14,7 @@ export class IncidentForwarder {
       payload: string;
       runAt: Date;
     },
-    incident: { status: number; body: string }
+    incident: { status?: number; body: string }
   ) {
     try {
       fetch(this.incidentEndpoint, {
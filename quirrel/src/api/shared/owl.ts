@@ -1,16 +1,22 @@
 import Owl from "@quirrel/owl";
 import { Redis } from "ioredis";
-import cronParser from "cron-parser";
+import { cron as nextCronExecution } from "../../shared/cron";
 
-export function cron(lastDate: Date, cronExpression: string): Date {
-  const expr = cronParser.parseExpression(cronExpression, {
-    utc: true,
-    currentDate: lastDate,
-  });
+/**
+ * Cron schedules in a time zone other than UTC are stored as `${expression};${timezone}`.
+ */
+export function encodeCronScheduleMeta(expression: string, timezone?: string) {
+  return timezone ? `${expression};${timezone}` : expression;
+}
 
-  const nextExecution = expr.next().toDate();
+export function decodeCronScheduleMeta(scheduleMeta: string) {
+  const [expression, timezone] = scheduleMeta.split(";");
+  return { expression, timezone: timezone as string | undefined };
+}
 
-  return nextExecution;
+export function cron(lastDate: Date, scheduleMeta: string): Date {
+  const { expression, timezone } = decodeCronScheduleMeta(scheduleMeta);
+  return nextCronExecution(lastDate, expression, timezone);
 }
 
 export function every(lastDate: Date, scheduleMeta: string): Date {
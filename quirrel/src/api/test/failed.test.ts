@@ -0,0 +1,135 @@
+import { run } from "./runQuirrel";
+import fastify from "fastify";
+import delay from "delay";
+import request from "supertest";
+
+function testAgainst(backend: "Redis" | "Mock") {
+  async function setup() {
+    const server = fastify();
+    const executionIds: string[] = [];
+    server.post("/", (request, reply) => {
+      executionIds.push(request.id);
+      const { status } = JSON.parse(request.body as string);
+      reply.status(status).send("Something broke!");
+    });
+
+    const endpoint = encodeURIComponent(await server.listen(0));
+
+    const res = await run(backend);
+
+    return {
+      quirrel: res.server,
+      endpoint,
+      executionIds,
+      teardown: () => Promise.all([res.teardown(), server.close()]),
+    };
+  }
+
+  describe(backend + " > failed jobs", () => {
+    test("are kept once retries are exhausted", async () => {
+      const { teardown, quirrel, endpoint } = await setup();
+
+      await request(quirrel)
+        .post("/queues/" + endpoint)
+        .send({
+          body: JSON.stringify({ status: 500 }),
+          id: "a",
+          retry: [10],
+        })
+        .expect(201);
+
+      await delay(200);
+
+      const { body } = await request(quirrel)
+        .get("/failed/" + endpoint)
+        .expect(200);
+
+      expect(body).toEqual([
+        {
+          id: "a",
+          endpoint: decodeURIComponent(endpoint),
+          body: JSON.stringify({ status: 500 }),
+          exclusive: false,
+          retry: [10],
+          attempts: 2,
+          responseStatus: 500,
+          responseBody: "Something broke!",
+          failedAt: expect.any(String),
+        },
+      ]);
+
+      await teardown();
+    });
+
+    test("can be retried", async () => {
+      const { teardown, quirrel, endpoint, executionIds } = await setup();
+
+      await request(quirrel)
+        .post("/queues/" + endpoint)
+        .send({ body: JSON.stringify({ status: 500 }), id: "a" })
+        .expect(201);
+
+      await delay(100);
+
+      const { body: job } = await request(quirrel)
+        .post(`/failed/${endpoint}/a`)
+        .expect(201);
+
+      expect(job.id).toEqual("a");
+
+      await delay(100);
+
+      expect(executionIds).toHaveLength(2);
+
+      await request(quirrel).post(`/failed/${endpoint}/b`).expect(404);
+
+      await teardown();
+    });
+
+    test("can be discarded", async () => {
+      const { teardown, quirrel, endpoint } = await setup();
+
+      await request(quirrel)
+        .post("/queues/" + endpoint)
+        .send({ body: JSON.stringify({ status: 500 }), id: "a" })
+        .expect(201);
+
+      await delay(100);
+
+      await request(quirrel).delete(`/failed/${endpoint}/a`).expect(204);
+      await request(quirrel).delete(`/failed/${endpoint}/a`).expect(404);
+
+      const { body } = await request(quirrel)
+        .get("/failed/" + endpoint)
+        .expect(200);
+      expect(body).toEqual([]);
+
+      await teardown();
+    });
+
+    test("aren't kept while they repeat", async () => {
+      const { teardown, quirrel, endpoint } = await setup();
+
+      await request(quirrel)
+        .post("/queues/" + endpoint)
+        .send({
+          body: JSON.stringify({ status: 500 }),
+          id: "a",
+          repeat: { every: 60 * 1000, times: 2 },
+        })
+        .expect(201);
+
+      await delay(100);
+
+      const { body } = await request(quirrel)
+        .get("/failed/" + endpoint)
+        .expect(200);
+      expect(body).toEqual([]);
+
+      await teardown();
+    });
+  });
+}
+
+testAgainst("Redis");
+testAgainst("Mock");
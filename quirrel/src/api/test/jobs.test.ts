@@ -326,7 +326,7 @@ describeAcrossBackends("Jobs", (backend) => {
     expect(jobId1).toEqual(id);
 
     const {
-      body: { id: jobId2 },
+      body: { id: jobId2, body: jobBody2 },
     } = await request(quirrel)
       .post("/queues/" + endpoint)
       .send({
@@ -337,6 +337,7 @@ describeAcrossBackends("Jobs", (backend) => {
       .expect(201);
 
     expect(jobId2).toEqual(id);
+    expect(jobBody2).toEqual(JSON.stringify({ iAm: "theFirstJob" }));
 
     await delay(400);
 
@@ -360,6 +361,35 @@ describeAcrossBackends("Jobs", (backend) => {
     expect(bodies).toEqual(['{"iAm":"theFirstJob"}', '{"iAm":"theSecondJob"}']);
   });
 
+  test("overriding jobs", async () => {
+    const id = "sameIdAcrossBothJobs";
+
+    await request(quirrel)
+      .post("/queues/" + endpoint)
+      .send({
+        body: JSON.stringify({ iAm: "theFirstJob" }),
+        runAt: new Date(Date.now() + 300).toISOString(),
+        id,
+      })
+      .expect(201);
+
+    const { body: job } = await request(quirrel)
+      .post("/queues/" + endpoint)
+      .send({
+        body: JSON.stringify({ iAm: "theSecondJob" }),
+        runAt: new Date(Date.now() + 300).toISOString(),
+        id,
+        override: true,
+      })
+      .expect(201);
+
+    expect(job.body).toEqual(JSON.stringify({ iAm: "theSecondJob" }));
+
+    await delay(400);
+
+    expect(bodies).toEqual(['{"iAm":"theSecondJob"}']);
+  });
+
   describe("repeated jobs", () => {
     test("work", async () => {
       await request(quirrel)
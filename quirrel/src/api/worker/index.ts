@@ -8,13 +8,19 @@ import { Telemetrist } from "../shared/telemetrist";
 import { createOwl } from "../shared/owl";
 import type { Logger } from "../shared/logger";
 import { IncidentForwarder } from "../shared/incident-forwarder";
+import { DeadLetterRepo } from "../shared/dead-letter-repo";
 
 interface ExecutionError {
   toString(): string;
   endpoint: string;
   tokenId: string;
   responseBody: string;
-  responseStatus: number;
+  responseStatus?: number;
+
+  /**
+   * Whether the job is executed again, given that it isn't retried.
+   */
+  repeats: boolean;
 }
 
 export function replaceLocalhostWithDockerHost(url: string): string {
@@ -61,6 +67,7 @@ export async function createWorker({
     : new Telemetrist(runningInDocker ?? false);
 
   const tokenRepo = new TokenRepo(redisClient);
+  const deadLetterRepo = new DeadLetterRepo(redisClient);
 
   let usageMeter: UsageMeter | undefined = undefined;
   if (enableUsageMetering) {
@@ -104,11 +111,29 @@ export async function createWorker({
         endpoint = replaceLocalhostWithDockerHost(endpoint);
       }
 
+      function executionError(
+        responseBody: string,
+        responseStatus?: number
+      ): ExecutionError {
+        return {
+          tokenId,
+          endpoint,
+          responseBody,
+          responseStatus,
+          repeats: !!jobMeta.nextExecDate && responseStatus !== 404,
+          toString() {
+            return responseBody;
+          },
+        };
+      }
+
       const [response] = await Promise.all([
         fetch(endpoint, {
           method: "POST",
           body,
           headers,
+        }).catch((error) => {
+          throw executionError(String(error));
         }),
         usageMeter?.record(tokenId),
       ]);
@@ -129,17 +154,7 @@ export async function createWorker({
           jobMeta.dontReschedule();
         }
 
-        const error: ExecutionError = {
-          tokenId,
-          endpoint,
-          responseBody,
-          responseStatus: response.status,
-          toString() {
-            return responseBody;
-          },
-        };
-
-        throw error;
+        throw executionError(responseBody, response.status);
       }
     },
     async (job, _error) => {
@@ -148,8 +163,28 @@ export async function createWorker({
         endpoint,
         responseBody,
         responseStatus,
+        repeats,
       } = (_error as any) as ExecutionError;
 
+      // retries are exhausted, so unless the job repeats it's gone
+      if (job.retry.length > 0 || !repeats) {
+        // `endpoint` may point to the Docker host
+        const queue = decodeQueueDescriptor(job.queue);
+
+        await deadLetterRepo.add(queue.tokenId, {
+          id: job.id,
+          endpoint: queue.endpoint,
+          body: job.payload,
+          exclusive: job.exclusive,
+          retry: job.retry,
+          attempts: job.count,
+          responseStatus,
+          responseBody: responseStatus === undefined ? undefined : responseBody,
+          error: responseStatus === undefined ? responseBody : undefined,
+          failedAt: new Date().toISOString(),
+        });
+      }
+
       await incidentForwarder?.dispatch(
         {
           endpoint,
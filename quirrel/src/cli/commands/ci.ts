@@ -2,7 +2,7 @@ import { Command } from "commander";
 import Table from "easy-table";
 import { QuirrelClient } from "../../client";
 import { getApplicationBaseUrl } from "../../client/config";
-import type { Job, JobDTO } from "../../client/job";
+import type { JobDTO } from "../../client/job";
 import { CronDetector, DetectedCronJob } from "../cron-detector";
 import * as z from "zod";
 
@@ -12,6 +12,7 @@ function printDetectedJobs(jobs: DetectedCronJob[]) {
       jobs.map((j) => ({
         Route: j.route,
         Schedule: j.isValid ? j.schedule : j.schedule + " (invalid, skipping)",
+        Timezone: j.timezone ?? "UTC",
       }))
     )
   );
@@ -26,7 +27,7 @@ async function getOldJobs() {
   return quirrel.getAllCronJobs();
 }
 
-function computeObsoleteJobs(oldJobs: Job<null>[], newJobs: DetectedCronJob[]) {
+function computeObsoleteJobs(oldJobs: JobDTO[], newJobs: DetectedCronJob[]) {
   const applicationBaseUrl = getApplicationBaseUrl();
 
   const oldJobsAsDetected = oldJobs.map(
@@ -35,6 +36,7 @@ function computeObsoleteJobs(oldJobs: Job<null>[], newJobs: DetectedCronJob[]) {
       isValid: true,
       route: j.endpoint.slice(applicationBaseUrl.length + 1),
       schedule: j.repeat!.cron!,
+      timezone: j.repeat!.timezone,
     })
   );
 
@@ -44,7 +46,7 @@ function computeObsoleteJobs(oldJobs: Job<null>[], newJobs: DetectedCronJob[]) {
 }
 
 async function dealWithObsoleteJobs(
-  oldJobs: Job<null>[],
+  oldJobs: JobDTO[],
   newJobs: DetectedCronJob[],
   dryRun: boolean
 ) {
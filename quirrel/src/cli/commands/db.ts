@@ -0,0 +1,141 @@
+import type { Command } from "commander";
+import { PrismaClient } from "@prisma/client";
+import ms from "ms";
+import { getDatabaseUrl } from "../../client/config";
+import { migrate } from "../../client/postgres/migrate";
+import { prune } from "../../client/postgres/retention";
+
+function createPrismaClient(databaseUrl = getDatabaseUrl()) {
+  if (!databaseUrl) {
+    throw new Error(
+      "Please provide a database URL via --database-url or QUIRREL_DATABASE_URL."
+    );
+  }
+
+  return new PrismaClient({
+    datasources: {
+      db: {
+        url: databaseUrl,
+      },
+    },
+  });
+}
+
+/**
+ * @returns undefined to keep the stored limit, null to remove it.
+ */
+function parseLimit(
+  option: string,
+  value: string | undefined,
+  parse: (value: string) => number
+): number | null | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  if (value === "none") {
+    return null;
+  }
+
+  const limit = parse(value);
+  if (!(Number.isInteger(limit) && limit > 0)) {
+    throw new Error(`Invalid ${option}: ${value}`);
+  }
+
+  return limit;
+}
+
+export default function registerDB(program: Command) {
+  const db = program
+    .command("db")
+    .description("Manages Quirrel's Postgres schema.");
+
+  db.command("migrate")
+    .description(
+      "Creates the required extensions and applies pending migrations."
+    )
+    .option("-d, --dry-run", "Only print the SQL, don't execute it.", false)
+    .option(
+      "--database-url <database-url>",
+      "Defaults to QUIRREL_DATABASE_URL."
+    )
+    .action(
+      async ({
+        dryRun,
+        databaseUrl,
+      }: {
+        dryRun: boolean;
+        databaseUrl?: string;
+      }) => {
+        const prisma = createPrismaClient(databaseUrl);
+
+        try {
+          const statements = await migrate(prisma, { dryRun });
+
+          if (statements.length === 0) {
+            console.log("Database is up to date.");
+            return;
+          }
+
+          if (dryRun) {
+            // they're applied in one transaction
+            console.log("begin;\n");
+            for (const statement of statements) {
+              console.log(statement.trim() + ";\n");
+            }
+            console.log("commit;");
+          } else {
+            console.log(`Executed ${statements.length} statement(s).`);
+          }
+        } finally {
+          await prisma.$disconnect();
+        }
+      }
+    );
+
+  db.command("prune")
+    .description(
+      "Applies pending migrations and prunes the run history. Given limits are kept for the hourly maintenance job."
+    )
+    .option(
+      "--max-age <duration>",
+      "Prune runs older than this, e.g. 7d, or 'none' to keep runs regardless of age. Defaults to the stored limit."
+    )
+    .option(
+      "--max-runs <count>",
+      "Keep only this many runs per job, or 'none' to keep any number. Defaults to the stored limit."
+    )
+    .option(
+      "--database-url <database-url>",
+      "Defaults to QUIRREL_DATABASE_URL."
+    )
+    .action(
+      async ({
+        maxAge,
+        maxRuns,
+        databaseUrl,
+      }: {
+        maxAge?: string;
+        maxRuns?: string;
+        databaseUrl?: string;
+      }) => {
+        const limits = {
+          maxAge: parseLimit("--max-age", maxAge, ms),
+          maxRunsPerJob: parseLimit("--max-runs", maxRuns, Number),
+        };
+
+        const prisma = createPrismaClient(databaseUrl);
+
+        try {
+          // the maintenance job and its limits are part of the schema
+          await migrate(prisma);
+
+          const pruned = await prune(prisma, limits);
+
+          console.log(`Pruned ${pruned} run(s).`);
+        } finally {
+          await prisma.$disconnect();
+        }
+      }
+    );
+}
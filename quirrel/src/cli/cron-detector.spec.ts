@@ -68,6 +68,37 @@ export const handler = CronJob('admin-report-email-task-daily', '0 15 * * *', as
       schedule: "0 15 * * *",
     },
   },
+  "with timezone": {
+    input: `
+import { CronJob } from "quirrel/next"
+export default CronJob(
+  "api/morningDigest",
+  ["0 9 * * *", "Europe/Berlin"],
+  async () => {}
+)
+    `,
+    output: {
+      framework: "next",
+      isValid: true,
+      route: "api/morningDigest",
+      schedule: "0 9 * * *",
+      timezone: "Europe/Berlin",
+    },
+  },
+  "with invalid timezone": {
+    input: `
+import { CronJob } from 'quirrel/redwood'
+
+export const handler = CronJob('digest', ['0 9 * * *', 'Europe/Atlantis'], async () => {})
+    `,
+    output: {
+      framework: "redwood",
+      isValid: false,
+      route: "digest",
+      schedule: "0 9 * * *",
+      timezone: "Europe/Atlantis",
+    },
+  },
 };
 
 describe("detectQuirrelCronJob", () => {
@@ -3,6 +3,7 @@ import { promises as fs } from "fs";
 import * as chokidar from "chokidar";
 
 import { cron, QuirrelClient } from "../client/index";
+import { isValidTimezone } from "../shared/cron";
 // import { makeFetchMockConnectedTo } from "./fetch-mock";
 import { parseChokidarRulesFromGitignore } from "./parse-gitignore";
 
@@ -14,6 +15,7 @@ function requireFrameworkClientForDevelopmentDefaults(framework: string) {
 export interface DetectedCronJob {
   route: string;
   schedule: string;
+  timezone?: string;
   framework: string;
   isValid: boolean;
 }
@@ -26,7 +28,8 @@ export function detectQuirrelCronJob(file: string): DetectedCronJob | null {
 
   const clientFramework = quirrelImport[1];
 
-  const jobNameResult = /CronJob\(\s*(?:\/[\/\*].*)?\s*['"](.*)["'],\s*(?:\/[\/\*].*)?\s*["'](.*)["']/.exec(
+  // the schedule is either a string or a [schedule, timezone] tuple
+  const jobNameResult = /CronJob\(\s*(?:\/[\/\*].*)?\s*['"](.*?)["'],\s*(?:\/[\/\*].*)?\s*(?:\[\s*["'](.*?)["']\s*,\s*["'](.*?)["']\s*,?\s*\]|["'](.*?)["'])/.exec(
     file
   );
   if (!jobNameResult) {
@@ -34,13 +37,17 @@ export function detectQuirrelCronJob(file: string): DetectedCronJob | null {
   }
 
   let jobName = jobNameResult[1];
-  const cronSchedule = jobNameResult[2];
+  const cronSchedule = jobNameResult[2] ?? jobNameResult[4];
+  const timezone = jobNameResult[3];
 
   return {
     route: jobName,
     schedule: cronSchedule,
+    timezone,
     framework: clientFramework,
-    isValid: cron.safeParse(cronSchedule).success,
+    isValid:
+      cron.safeParse(cronSchedule).success &&
+      (!timezone || isValidTimezone(timezone)),
   };
 }
 
@@ -128,6 +135,7 @@ export class CronDetector {
         override: true,
         repeat: {
           cron: job.schedule,
+          timezone: job.timezone,
         },
       });
     } catch (err) {
@@ -160,7 +168,9 @@ export class CronDetector {
 
       if (!newJob.isValid) {
         console.error(`
-🚨Encountered invalid cron expression: ${newJob.schedule}`);
+🚨Encountered invalid cron expression: ${newJob.schedule}${
+          newJob.timezone ? ` (${newJob.timezone})` : ""
+        }`);
         return;
       }
 
@@ -4,6 +4,7 @@ import pack from "../../package.json";
 import { Command, program } from "commander";
 import registerUI from "./commands/ui";
 import registerCI from "./commands/ci";
+import registerDB from "./commands/db";
 import registerRun from "./commands";
 
 program.version(pack.version);
@@ -11,5 +12,9 @@ program.version(pack.version);
 registerRun(program as Command);
 registerUI(program as Command);
 registerCI(program as Command);
+registerDB(program as Command);
 
-program.parse(process.argv);
+program.parseAsync(process.argv).catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
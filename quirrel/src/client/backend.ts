@@ -0,0 +1,145 @@
+import type { Activity, FailedJobDTO, JobDTO, JobId, JobRun } from "./job";
+
+/**
+ * A job as it's handed to the backend:
+ * options are validated, durations parsed and the payload is encoded.
+ */
+export interface EnqueueJob {
+  id?: JobId;
+  body: string;
+  delay?: number;
+  override?: boolean;
+  exclusive?: boolean;
+  retry?: number[];
+  repeat?: {
+    every?: number | string;
+    times?: number;
+    cron?: string;
+    timezone?: string;
+  };
+}
+
+export interface GetRunsOptions {
+  /**
+   * Maximum number of runs to return.
+   */
+  limit?: number;
+
+  /**
+   * Only return runs started after this date.
+   */
+  since?: Date;
+}
+
+export interface GetOptions {
+  /**
+   * Number of jobs per page.
+   * The Quirrel server treats this as a hint.
+   */
+  pageSize?: number;
+}
+
+export interface QueuedEndpoint {
+  endpoint: string;
+
+  /**
+   * Number of scheduled jobs.
+   * Only set if counts were requested.
+   */
+  jobs?: number;
+
+  /**
+   * Number of executions within the last day.
+   * Only set if counts were requested, and only recorded on Postgres.
+   */
+  recentRuns?: number;
+}
+
+/**
+ * Stores and executes jobs on behalf of `QuirrelClient`.
+ * Every method is scoped to the endpoint it's passed.
+ */
+export interface QuirrelBackend {
+  /**
+   * Schedules all jobs at once, so either all of them are scheduled or none is.
+   */
+  enqueue(endpoint: string, jobs: EnqueueJob[]): Promise<JobDTO[]>;
+
+  /**
+   * Iterates the jobs of an endpoint page by page.
+   */
+  get(endpoint: string, opts: GetOptions): AsyncGenerator<JobDTO[]>;
+
+  getById(endpoint: string, id: JobId): Promise<JobDTO | null>;
+
+  /**
+   * @returns false if the job could not be found.
+   */
+  invoke(endpoint: string, id: JobId): Promise<boolean>;
+
+  /**
+   * @returns false if the job could not be found.
+   */
+  delete(endpoint: string, id: JobId): Promise<boolean>;
+
+  /**
+   * Stops executing a job, keeping its schedule.
+   * @returns false if the job could not be found.
+   */
+  pause(endpoint: string, id: JobId): Promise<boolean>;
+
+  /**
+   * @returns false if the job could not be found.
+   */
+  resume(endpoint: string, id: JobId): Promise<boolean>;
+
+  /**
+   * Most recent executions of a job, newest first.
+   */
+  getRuns(endpoint: string, id: JobId, opts: GetRunsOptions): Promise<JobRun[]>;
+
+  /**
+   * Cron jobs declared using `CronJob`, across all endpoints.
+   */
+  getAllCronJobs(): Promise<JobDTO[]>;
+
+  /**
+   * Endpoints with scheduled or recently run jobs.
+   */
+  getQueuedEndpoints(opts: { withCounts: boolean }): Promise<QueuedEndpoint[]>;
+
+  /**
+   * Jobs that failed for good, most recent failure first.
+   */
+  getFailed(endpoint: string): Promise<FailedJobDTO[]>;
+
+  /**
+   * Schedules a failed job for immediate execution, replacing a job with the same ID.
+   * @returns null if the failed job could not be found.
+   */
+  retryFailed(endpoint: string, id: JobId): Promise<JobDTO | null>;
+
+  /**
+   * @returns false if the failed job could not be found.
+   */
+  discardFailed(endpoint: string, id: JobId): Promise<boolean>;
+
+  /**
+   * Deletes the jobs of all endpoints.
+   * @returns the number of deleted jobs.
+   */
+  deleteAll(): Promise<number>;
+
+  /**
+   * Subscribes to the activity of all endpoints.
+   * Resolves once the subscription is established.
+   * @param onError receives errors that occur afterwards, like a lost connection or unreadable activity.
+   * @returns a function that ends the subscription.
+   */
+  onActivity(
+    cb: (activity: Activity) => void,
+    onError?: (error: Error) => void
+  ): Promise<() => Promise<void>>;
+
+  beforeExit(cb: () => Promise<void>): void;
+}
@@ -0,0 +1,356 @@
+import * as z from "zod";
+import fetch from "cross-fetch";
+import WebSocket from "ws";
+
+import type { Activity, FailedJobDTO, JobDTO, JobId, JobRun } from "./job";
+import type {
+  EnqueueJob,
+  GetOptions,
+  QueuedEndpoint,
+  QuirrelBackend,
+} from "./backend";
+import pack from "../../package.json";
+
+function getAuthHeaders(
+  token: string | undefined
+): { Authorization: string } | {} {
+  if (!token) {
+    return {};
+  }
+
+  return { Authorization: `Bearer ${token}` };
+}
+
+async function unexpectedResponse(res: Response) {
+  return new Error(
+    `Unexpected response from Quirrel (Status ${
+      res.status
+    }): ${await res.text()}`
+  );
+}
+
+/**
+ * Stores jobs on a Quirrel server, using its HTTP API.
+ */
+export class HttpBackend implements QuirrelBackend {
+  private quirrelBaseUrl;
+  private token;
+  private defaultHeaders: Record<string, string>;
+  private fetch;
+
+  constructor({
+    quirrelBaseUrl,
+    token,
+    fetch: customFetch,
+  }: {
+    quirrelBaseUrl: string;
+    token: string | undefined;
+    fetch?: typeof fetch;
+  }) {
+    this.quirrelBaseUrl = quirrelBaseUrl;
+    this.token = token;
+    this.defaultHeaders = {
+      ...getAuthHeaders(token),
+      "X-QuirrelClient-Version": pack.version,
+    };
+    this.fetch = customFetch ?? fetch;
+  }
+
+  private async makeRequest(uri: string, init?: RequestInit) {
+    return await this.fetch(this.quirrelBaseUrl + uri, {
+      credentials: "omit",
+      ...init,
+      headers: {
+        ...this.defaultHeaders,
+        ...init?.headers,
+      },
+    });
+  }
+
+  private queueUri(endpoint: string, id?: JobId) {
+    return this.resourceUri("/queues/", endpoint, id);
+  }
+
+  private failedUri(endpoint: string, id?: JobId) {
+    return this.resourceUri("/failed/", endpoint, id);
+  }
+
+  private resourceUri(prefix: string, endpoint: string, id?: JobId) {
+    let uri = prefix + encodeURIComponent(endpoint);
+    if (id !== undefined) {
+      uri += "/" + encodeURIComponent(String(id));
+    }
+
+    return uri;
+  }
+
+  beforeExit(cb: () => Promise<void>) {
+    process.once("beforeExit", async () => {
+      await cb();
+    });
+  }
+
+  async getAllCronJobs() {
+    const endpoints = await this.getEndpoints();
+
+    const jobs = await Promise.all(
+      endpoints.map((endpoint) => this.getById(endpoint, "@cron"))
+    );
+
+    return jobs.filter((job): job is JobDTO => !!job);
+  }
+
+  private async getEndpoints() {
+    const res = await this.makeRequest("/queues/");
+    if (res.status !== 200) {
+      throw await unexpectedResponse(res);
+    }
+
+    const result = z.array(z.string()).safeParse(await res.json());
+    return result.success ? result.data : [];
+  }
+
+  /**
+   * The Quirrel server has no counts, so they're obtained by iterating all jobs.
+   */
+  async getQueuedEndpoints({
+    withCounts,
+  }: {
+    withCounts: boolean;
+  }): Promise<QueuedEndpoint[]> {
+    const endpoints = await this.getEndpoints();
+
+    if (!withCounts) {
+      return endpoints.map((endpoint) => ({ endpoint }));
+    }
+
+    return await Promise.all(
+      endpoints.map(async (endpoint) => {
+        let jobs = 0;
+        for await (const page of this.get(endpoint, {})) {
+          jobs += page.length;
+        }
+
+        return { endpoint, jobs };
+      })
+    );
+  }
+
+  /**
+   * The Quirrel server schedules batches job by job,
+   * so a failing batch may have been scheduled partially.
+   */
+  async enqueue(endpoint: string, jobs: EnqueueJob[]): Promise<JobDTO[]> {
+    const bodies = jobs.map((job) => ({
+      ...job,
+      id: job.id === undefined ? undefined : String(job.id),
+    }));
+
+    const isBatch = bodies.length !== 1;
+
+    const res = await this.makeRequest(
+      this.queueUri(endpoint) + (isBatch ? "/batch" : ""),
+      {
+        method: "POST",
+        body: JSON.stringify(isBatch ? bodies : bodies[0]),
+        headers: {
+          "Content-Type": "application/json",
+        },
+      }
+    );
+
+    if (res.status !== 201) {
+      throw await unexpectedResponse(res);
+    }
+
+    const json = await res.json();
+    return isBatch ? json : [json];
+  }
+
+  async *get(
+    endpoint: string,
+    { pageSize }: GetOptions
+  ): AsyncGenerator<JobDTO[]> {
+    let cursor: number | null = 0;
+    while (cursor !== null) {
+      const res = await this.makeRequest(
+        this.queueUri(endpoint) +
+          "?cursor=" +
+          cursor +
+          (pageSize ? "&count=" + pageSize : "")
+      );
+      if (res.status !== 200) {
+        throw await unexpectedResponse(res);
+      }
+
+      const json: { cursor: number | null; jobs: JobDTO[] } = await res.json();
+      cursor = json.cursor;
+      yield json.jobs;
+    }
+  }
+
+  async getById(endpoint: string, id: JobId): Promise<JobDTO | null> {
+    const res = await this.makeRequest(this.queueUri(endpoint, id));
+
+    if (res.status === 404) {
+      return null;
+    }
+
+    if (res.status === 200) {
+      return await res.json();
+    }
+
+    throw await unexpectedResponse(res);
+  }
+
+  async invoke(endpoint: string, id: JobId): Promise<boolean> {
+    const res = await this.makeRequest(this.queueUri(endpoint, id), {
+      method: "POST",
+    });
+
+    if (res.status === 404) {
+      return false;
+    }
+
+    if (res.status === 204) {
+      return true;
+    }
+
+    throw await unexpectedResponse(res);
+  }
+
+  /**
+   * The Quirrel server doesn't keep a history of executions.
+   */
+  async getRuns(): Promise<JobRun[]> {
+    throw new Error("Job runs are only recorded when using Postgres.");
+  }
+
+  async pause(): Promise<boolean> {
+    throw new Error("Pausing jobs is only supported when using Postgres.");
+  }
+
+  async resume(): Promise<boolean> {
+    throw new Error("Pausing jobs is only supported when using Postgres.");
+  }
+
+  async delete(endpoint: string, id: JobId): Promise<boolean> {
+    const res = await this.makeRequest(this.queueUri(endpoint, id), {
+      method: "DELETE",
+    });
+
+    if (res.status === 404) {
+      return false;
+    }
+
+    if (res.status === 204) {
+      return true;
+    }
+
+    throw await unexpectedResponse(res);
+  }
+
+  async getFailed(endpoint: string): Promise<FailedJobDTO[]> {
+    const res = await this.makeRequest(this.failedUri(endpoint));
+    if (res.status !== 200) {
+      throw await unexpectedResponse(res);
+    }
+
+    return await res.json();
+  }
+
+  async retryFailed(endpoint: string, id: JobId): Promise<JobDTO | null> {
+    const res = await this.makeRequest(this.failedUri(endpoint, id), {
+      method: "POST",
+    });
+
+    if (res.status === 404) {
+      return null;
+    }
+
+    if (res.status === 201) {
+      return await res.json();
+    }
+
+    throw await unexpectedResponse(res);
+  }
+
+  async discardFailed(endpoint: string, id: JobId): Promise<boolean> {
+    const res = await this.makeRequest(this.failedUri(endpoint, id), {
+      method: "DELETE",
+    });
+
+    if (res.status === 404) {
+      return false;
+    }
+
+    if (res.status === 204) {
+      return true;
+    }
+
+    throw await unexpectedResponse(res);
+  }
+
+  async deleteAll() {
+    let count = 0;
+
+    for (const endpoint of await this.getEndpoints()) {
+      for await (const jobs of this.get(endpoint, {})) {
+        for (const job of jobs) {
+          if (await this.delete(endpoint, job.id)) {
+            count++;
+          }
+        }
+      }
+    }
+
+    return count;
+  }
+
+  /**
+   * Connects to the server's activity feed.
+   * Its events aren't dated, so they're dated on arrival.
+   */
+  async onActivity(
+    cb: (activity: Activity) => void,
+    onError?: (error: Error) => void
+  ): Promise<() => Promise<void>> {
+    const socket = new WebSocket(
+      this.quirrelBaseUrl.replace(/^http/, "ws") + "/activity",
+      // the server reads the token from the protocol
+      this.token || "ignored"
+    );
+
+    let connected = false;
+
+    // errors while connecting reject below
+    socket.on("error", (error) => {
+      if (connected) {
+        onError?.(error);
+      }
+    });
+
+    socket.on("message", (data) => {
+      let type, payload;
+      try {
+        [type, payload] = JSON.parse(String(data));
+      } catch (error) {
+        onError?.(error);
+        return;
+      }
+
+      cb({ type, payload, date: Date.now() });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      socket.once("open", resolve);
+      socket.once("error", reject);
+    });
+
+    connected = true;
+
+    return async () => {
+      socket.close();
+    };
+  }
+}
@@ -4,15 +4,41 @@ import { verify } from "secure-webhooks";
 import ms from "ms";
 import fetch from "cross-fetch";
 import type { IncomingHttpHeaders } from "http";
-import { PrismaClient, job as DbJob } from "@prisma/client";
 
-import { Job, JobDTO, JobId } from "./job";
+import {
+  Activity,
+  FailedJob,
+  FailedJobDTO,
+  Job,
+  JobDTO,
+  JobId,
+  JobRun,
+} from "./job";
 import * as config from "./config";
-import pack from "../../package.json";
 import * as EnhancedJSON from "./enhanced-json";
 import { isValidRegex } from "../shared/is-valid-regex";
-
-export { Job };
+import { cron as nextCronExecution, isValidTimezone } from "../shared/cron";
+import type {
+  EnqueueJob,
+  GetOptions,
+  GetRunsOptions,
+  QueuedEndpoint,
+  QuirrelBackend,
+} from "./backend";
+import { PostgresBackend } from "./postgres";
+import { HttpBackend } from "./http";
+
+export {
+  Activity,
+  FailedJob,
+  Job,
+  JobRun,
+  QuirrelBackend,
+  EnqueueJob,
+  GetOptions,
+  GetRunsOptions,
+  QueuedEndpoint,
+};
 
 export interface JobMeta
   extends Pick<JobDTO, "id" | "count" | "exclusive" | "retry"> {
@@ -25,6 +51,13 @@ export interface JobMeta
 export type QuirrelJobHandler<T> = (job: T, meta: JobMeta) => Promise<void>;
 export type DefaultJobOptions = Pick<EnqueueJobOptions, "exclusive" | "retry">;
 
+/**
+ * Cron expression of a `CronJob`, optionally paired with the IANA time zone it's evaluated in.
+ * @example "0 9 * * *"
+ * @example ["0 9 * * *", "Europe/Berlin"]
+ */
+export type CronSchedule = string | [schedule: string, timezone: string];
+
 interface CreateQuirrelClientArgs<T> {
   route: string;
   handler: QuirrelJobHandler<T>;
@@ -41,8 +74,8 @@ interface CreateQuirrelClientArgs<T> {
     applicationBaseUrl?: string;
 
     /**
-     * @deprecated
      * Overrides URL of the Quirrel Endpoint.
+     * Takes precedence over `databaseUrl` when set here.
      * @default https://api.quirrel.dev or http://localhost:9181
      * Recommended way to set this: process.env.QUIRREL_URL
      */
@@ -51,6 +84,7 @@ interface CreateQuirrelClientArgs<T> {
     /**
      * Bearer Secret for authenticating with Quirrel.
      * Obtain on quirrel.dev or using the API of a self-hosted instance.
+     * When using Postgres, the database signs requests to your application with it.
      * Recommended way to set this: process.env.QUIRREL_TOKEN
      */
     token?: string;
@@ -68,6 +102,13 @@ interface CreateQuirrelClientArgs<T> {
      * Recommended way to set this: process.env.QUIRREL_OLD_SECRETS
      */
     oldSecrets?: string[];
+
+    /**
+     * Stores and executes jobs.
+     * Defaults to Postgres if `databaseUrl` is set,
+     * to the Quirrel server at `quirrelBaseUrl` otherwise.
+     */
+    backend?: QuirrelBackend;
   };
 
   fetch?: typeof fetch;
@@ -111,34 +152,26 @@ const EnqueueJobOptionsSchema = z.object({
       every: timeDuration("every").optional(),
       times: z.number().nonnegative().optional(),
       cron: cron.optional(),
+      timezone: z
+        .string()
+        .refine(
+          isValidTimezone,
+          "Please provide a valid IANA time zone, e.g. Europe/Berlin"
+        )
+        .optional(),
     })
     .optional(),
 });
 
 type EnqueueJobOptionsSchema = z.TypeOf<typeof EnqueueJobOptionsSchema>;
 
-const httpRequestSQL = (
-  url: string,
-  method = "GET",
-  body = {},
-  headers = {}
-) => {
-  return `http((
-    '${method}',
-    '${url}',
-    ARRAY[${Object.entries(headers)
-      .map((k, v) => `http_header('${k}','${v}')`)
-      .join(",")}],
-    'application/json',
-    '${JSON.stringify(body)}'
-  )::http_request)`;
-};
-
-// const timestampToCronSchedule = (timestamp: number) => {
-//   const date = new Date(timestamp);
-
-//   return `${date.getMinutes()} ${date.getHours()} ${date.getDate()} ${date.getMonth()} *`;
-// };
+const GetOptionsSchema = z.object({
+  pageSize: z
+    .number()
+    .int({ message: "pageSize must be an integer" })
+    .positive({ message: "pageSize must be positive" })
+    .optional(),
+});
 
 // type EnqueueJobOptionssSchemaMatchesDocs = AssertTrue<
 //   IsExact<EnqueueJobOptions, EnqueueJobOptionsSchema>
@@ -205,6 +238,13 @@ export interface EnqueueJobOptions {
      * If `delay` isn't set, the first repetition will be executed immediately.
      */
     cron?: string;
+
+    /**
+     * IANA time zone that @field cron is evaluated in, so it follows daylight saving time.
+     * @default "UTC"
+     * @example "Europe/Berlin"
+     */
+    timezone?: string;
   };
 }
 
@@ -224,6 +264,38 @@ function runAtToDelay(value: Date) {
   return +value - Date.now();
 }
 
+export interface OccurrencesOptions {
+  /**
+   * Number of upcoming executions to include in `job.occurrences`.
+   */
+  occurrences?: number;
+}
+
+function getOccurrences(dto: JobDTO, n: number): Date[] {
+  if (!dto.runAt) {
+    return [];
+  }
+
+  const { cron, timezone, every, times } = dto.repeat ?? {};
+
+  let remaining = cron || every ? n : 1;
+  if (times) {
+    remaining = Math.min(remaining, times - (dto.count ?? 1) + 1);
+  }
+
+  const occurrences: Date[] = [];
+  let next = new Date(dto.runAt);
+
+  while (occurrences.length < remaining) {
+    occurrences.push(next);
+    next = cron
+      ? nextCronExecution(next, cron, timezone)
+      : new Date(+next + (every ?? 0));
+  }
+
+  return occurrences;
+}
+
 function getEncryptor(
   encryptionSecret: string | undefined,
   oldSecrets: string[] = []
@@ -235,62 +307,24 @@ function getEncryptor(
   return new Encryptor(encryptionSecret, [encryptionSecret, ...oldSecrets]);
 }
 
-function getAuthHeaders(
-  token: string | undefined
-): { Authorization: string } | {} {
-  if (!token) {
-    return {};
-  }
-
-  return { Authorization: `Bearer ${token}` };
-}
-
-let globalPrisma: PrismaClient | undefined;
-
 export class QuirrelClient<T> {
   private handler;
   private route;
   private defaultJobOptions;
   private encryptor;
-  private defaultHeaders: Record<string, string>;
-  // private quirrelBaseUrl;
-  private applicationBaseUrl;
-  private databaseUrl;
-  // private baseUrl;
+  private applicationBaseUrl: string;
   private token;
-  private fetch;
   private catchDecryptionErrors;
+  private backend: QuirrelBackend;
 
   constructor(args: CreateQuirrelClientArgs<T>) {
     this.handler = args.handler;
     this.defaultJobOptions = args.defaultJobOptions;
 
-    this.databaseUrl = args.config?.databaseUrl ?? config.getDatabaseUrl();
-
-    const token = args.config?.token ?? config.getQuirrelToken();
-    this.defaultHeaders = {
-      ...getAuthHeaders(token),
-      "X-QuirrelClient-Version": pack.version,
-    };
-
-    // const quirrelBaseUrl =
-    //   args.config?.quirrelBaseUrl ?? config.getQuirrelBaseUrl();
-    let applicationBaseUrl = config.prefixWithProtocol(
+    this.applicationBaseUrl = config.prefixWithProtocol(
       args.config?.applicationBaseUrl ?? config.getApplicationBaseUrl()!
     );
-
-    applicationBaseUrl = applicationBaseUrl.replace(
-      "//localhost:",
-      "//host.docker.internal:"
-    );
-
-    this.applicationBaseUrl = applicationBaseUrl;
-    // this.quirrelBaseUrl = quirrelBaseUrl;
     this.route = args.route;
-    // this.baseUrl =
-    //   quirrelBaseUrl +
-    //   "/queues/" +
-    //   encodeURIComponent(applicationBaseUrl + "/" + this.route);
 
     this.token = args.config?.token ?? config.getQuirrelToken();
     this.encryptor = getEncryptor(
@@ -299,79 +333,60 @@ export class QuirrelClient<T> {
     );
     this.catchDecryptionErrors = args.catchDecryptionErrors;
 
-    this.fetch = args.fetch ?? fetch;
+    this.backend = args.config?.backend ?? this.createBackend(args);
+
+    // in development, the database runs in Docker and reaches the host this way.
+    // a Quirrel server takes care of that itself.
+    if (this.backend instanceof PostgresBackend) {
+      this.applicationBaseUrl = this.applicationBaseUrl.replace(
+        "//localhost:",
+        "//host.docker.internal:"
+      );
+    }
   }
 
-  private get prisma() {
-    if (!this.databaseUrl)
-      throw new Error("Missing required QUIRREL_DATABASE_URL");
+  private createBackend(args: CreateQuirrelClientArgs<T>): QuirrelBackend {
+    const databaseUrl = args.config?.databaseUrl ?? config.getDatabaseUrl();
+
+    if (databaseUrl && !args.config?.quirrelBaseUrl) {
+      return new PostgresBackend({ databaseUrl, token: this.token });
+    }
 
-    // only instantiate it once
-    globalPrisma ||= new PrismaClient({
-      datasources: {
-        db: {
-          url: this.databaseUrl,
-        },
-      },
+    return new HttpBackend({
+      quirrelBaseUrl:
+        args.config?.quirrelBaseUrl ?? config.getQuirrelBaseUrl()!,
+      token: this.token,
+      fetch: args.fetch,
     });
+  }
 
-    return globalPrisma;
+  private get endpoint() {
+    return this.applicationBaseUrl + "/" + this.route;
   }
 
   beforeExit(cb: () => Promise<void>) {
-    this.prisma.$on("beforeExit", async () => {
-      await cb();
-      // process.exit();
-    });
+    this.backend.beforeExit(cb);
   }
 
+  /**
+   * Get the cron jobs declared using `CronJob`, across all endpoints.
+   */
   async getAllCronJobs() {
-    const dbJobs = await this.prisma.job.findMany();
-
-    // const endpointsResponse = await this.makeRequest("/queues/");
-    // const endpointsResult = z
-    //   .array(z.string())
-    //   .safeParse(await endpointsResponse.json());
-    // const endpoints = endpointsResult.success ? endpointsResult.data : [];
-
-    // const jobs: JobDTO[] = [];
-
-    // await Promise.all(
-    //   endpoints.map(async (endpoint) => {
-    //     const jobRes = await this.makeRequest(
-    //       `/queues/${encodeURIComponent(endpoint)}/${encodeURIComponent("@cron")}`
-    //     );
-
-    //     if (jobRes.status !== 200) {
-    //       return;
-    //     }
-
-    //     jobs.push(await jobRes.json());
-    //   })
-    // );
-
-    return dbJobs.map((j) => this.dbJobToJob(j));
+    return await this.backend.getAllCronJobs();
   }
 
-  // TODO
-  async getQueuedEndpoints() {
-    return [];
-    // const jobs = await this.getAllCronJobs();
+  /**
+   * Get the endpoints with scheduled or recently run jobs, across all endpoints.
+   * @param opts.withCounts also count their jobs and recent runs.
+   */
+  getQueuedEndpoints(): Promise<string[]>;
+  getQueuedEndpoints(opts: { withCounts: true }): Promise<QueuedEndpoint[]>;
+  async getQueuedEndpoints({ withCounts = false } = {}) {
+    const endpoints = await this.backend.getQueuedEndpoints({ withCounts });
 
-    // return jobs.map((j) => j.endpoint);
+    return withCounts ? endpoints : endpoints.map(({ endpoint }) => endpoint);
   }
 
-  // async makeRequest(uri: string, init?: RequestInit) {
-  //   return await this.fetch(this.quirrelBaseUrl + uri, {
-  //     credentials: "omit",
-  //     ...init,
-  //     headers: {
-  //       ...this.defaultHeaders,
-  //       ...init?.headers,
-  //     },
-  //   });
-  // }
-
   private async payloadAndOptionsToBody(
     payload: T,
     options: EnqueueJobOptionsSchema
@@ -384,6 +399,12 @@ export class QuirrelClient<T> {
       throw new Error("retry and repeat cannot be used together");
     }
 
+    if (options.repeat?.timezone && !options.repeat.cron) {
+      throw new Error(
+        "repeat.timezone can only be used together with repeat.cron"
+      );
+    }
+
     options = EnqueueJobOptionsSchema.parse(options);
 
     let delay = parseDuration(options.delay);
@@ -408,8 +429,11 @@ export class QuirrelClient<T> {
       delay,
       id: options.id,
       repeat: options.repeat,
-      retry: options.retry?.map(parseDuration),
+      retry: (options.retry ?? this.defaultJobOptions?.retry)?.map(
+        (duration) => parseDuration(duration) ?? 0
+      ),
       override: options.override,
+      exclusive: options.exclusive ?? this.defaultJobOptions?.exclusive,
     };
   }
 
@@ -420,105 +444,36 @@ export class QuirrelClient<T> {
   async enqueue(payload: T, options: EnqueueJobOptions = {}): Promise<Job<T>> {
     const body = await this.payloadAndOptionsToBody(payload, options);
 
-    const endpoint = this.applicationBaseUrl + "/" + this.route;
-
-    let jobId: JobId;
-
-    const headers = {
-      "x-quirrel-secret": "TODO-secret",
-    };
-
-    const cronSchedule = body.repeat?.cron;
-    if (cronSchedule) {
-      const jobName = `cron-job:${this.route}`.substring(0, 64);
-
-      await this.deleteExisting(jobName);
-
-      [{ schedule: jobId }] = await this.prisma.$queryRaw`
-        select
-        cron.schedule(
-          ${jobName},
-          ${cronSchedule}, 
-          ${`
-          select status
-          from
-            ${httpRequestSQL(endpoint, "POST", {}, headers)}
-          `}
-        );
-      `;
-    } else {
-      throw new Error("UNIMPLEMENTED: 'schedule' is required");
-
-      // const jobName = `delay-job:${body.id ?? this.route}`.substring(0, 64);
-
-      // const runAt = Date.now() + Math.min(120000, body.delay || 0);
-
-      // const in1Year = new Date();
-      // in1Year.setFullYear(in1Year.getFullYear() + 1);
-      // if (runAt > in1Year.getTime() - 120000)
-      //   throw new Error("Cannot schedule more than 1 year in advance!");
-
-      // [{ schedule: jobId }] = await this.prisma.$queryRaw`
-      //   select
-      //   cron.schedule(
-      //     ${jobName},
-      //     ${timestampToCronSchedule(runAt)},
-      //     ${`
-      //     select status from (
-      //       select schedule from cron.unschedule('${jobName}')
-      //     ), (
-      //       select status from ${httpRequestSQL(
-      //         endpoint,
-      //         "POST",
-      //         payload,
-      //         headers
-      //       )}
-      //     )
-      //     `}
-      //   );
-      // `;
-    }
-
-    const job = await this.getById(jobId);
-
-    if (!job) throw new Error(`Job ${jobId} not found`);
+    const [job] = await this.insertJobs([body]);
 
     console.log(
-      `enqueued job ${job.id}: "${job.repeat?.cron}" at "${job.endpoint}"`
+      `enqueued job ${job.id}: "${
+        job.repeat?.cron ?? job.runAt?.toISOString()
+      }" at "${job.endpoint}"`
     );
 
     return job;
   }
 
   /**
-   * Enqueue multiple jobs
+   * Enqueue multiple jobs.
+   * Either all of them are scheduled or none is.
    */
   async enqueueMany(
     jobs: { payload: T; options?: EnqueueJobOptions }[]
   ): Promise<Job<T>[]> {
-    throw new Error("UNIMPLEMENTED");
-    // const body = await Promise.all(
-    //   jobs.map(({ payload, options = {} }) =>
-    //     this.payloadAndOptionsToBody(payload, options)
-    //   )
-    // );
-
-    // const res = await this.fetch(this.baseUrl + "/batch", {
-    //   method: "POST",
-    //   headers: {
-    //     "Content-Type": "application/json",
-    //     ...this.defaultHeaders,
-    //   },
-    //   credentials: "omit",
-    //   body: JSON.stringify(body),
-    // });
-
-    // if (res.status === 201) {
-    //   const response = (await res.json()) as any[];
-    //   return await Promise.all(response.map((job) => this.toJob(job)));
-    // }
-
-    // throw new Error(`Unexpected response: ${await res.text()}`);
+    const bodies = await Promise.all(
+      jobs.map(({ payload, options = {} }) =>
+        this.payloadAndOptionsToBody(payload, options)
+      )
+    );
+
+    return await this.insertJobs(bodies);
+  }
+
+  private async insertJobs(bodies: EnqueueJob[]): Promise<Job<T>[]> {
+    const dtos = await this.backend.enqueue(this.endpoint, bodies);
+    return await Promise.all(dtos.map((dto) => this.toJob(dto)));
   }
 
   private async decryptAndDecodeBody(body: any): Promise<T> {
@@ -543,158 +498,156 @@ export class QuirrelClient<T> {
     return EnhancedJSON.parse(body);
   }
 
-  private async toJob(dto: JobDTO): Promise<Job<T>> {
+  private async toJob(
+    dto: JobDTO,
+    { occurrences }: OccurrencesOptions = {}
+  ): Promise<Job<T>> {
     return {
       ...dto,
       body: await this.decryptAndDecodeBody(dto.body),
       runAt: dto.runAt ? new Date(dto.runAt) : undefined,
+      occurrences: occurrences ? getOccurrences(dto, occurrences) : undefined,
       delete: () => this.delete(dto.id),
       invoke: () => this.invoke(dto.id),
+      pause: () => this.pause(dto.id),
+      resume: () => this.resume(dto.id),
+    };
+  }
+
+  private async toFailedJob(dto: FailedJobDTO): Promise<FailedJob<T>> {
+    return {
+      ...dto,
+      body: await this.decryptAndDecodeBody(dto.body),
+      failedAt: new Date(dto.failedAt),
     };
   }
 
   /**
    * Iterate through scheduled jobs for `this.route`.
+   * @param opts.pageSize number of jobs per iteration, defaults to 100 on Postgres.
+   * @param opts.occurrences number of upcoming executions to include.
    * @example
    * for await (const jobs of queue.get()) {
    *   // do smth
    * }
    */
-  async *get(): AsyncGenerator<Job<T>[]> {
-    const dbJobs = await this.prisma.job.findMany({
-      where: {
-        jobname: `cron-job:${this.route}`.substring(0, 64),
-      },
-    });
+  async *get(
+    opts: GetOptions & OccurrencesOptions = {}
+  ): AsyncGenerator<Job<T>[]> {
+    GetOptionsSchema.parse(opts);
 
-    yield await Promise.all(dbJobs.map((j) => this.toJob(this.dbJobToJob(j))));
-
-    // let cursor: number | null = 0;
-    // while (cursor !== null) {
-    //   const res = await this.fetch(this.baseUrl + "?cursor=" + cursor, {
-    //     headers: this.defaultHeaders,
-    //   });
-    //   const json = await res.json();
-    //   const { cursor: newCursor, jobs } = json as {
-    //     cursor: number | null;
-    //     jobs: JobDTO[];
-    //   };
-    //   cursor = newCursor;
-    //   yield await Promise.all(jobs.map((dto) => this.toJob(dto)));
-    // }
-  }
-
-  private dbJobToJob(dbJob: DbJob): JobDTO {
-    const endpoint = dbJob.command.match(/'(https?:\/\/.*?)'/)?.[1];
-    if (!endpoint) throw new Error("Failed to parse job endpoint!");
-
-    return {
-      id: Number(dbJob.jobid),
-      body: "",
-      endpoint,
-      repeat: {
-        cron: dbJob.schedule,
-      },
-    };
+    for await (const dtos of this.backend.get(this.endpoint, opts)) {
+      yield await Promise.all(dtos.map((dto) => this.toJob(dto, opts)));
+    }
   }
 
   /**
    * Get a specific job.
+   * @param opts.occurrences number of upcoming executions to include.
    * @returns null if no job was found.
    */
-  async getById(id: JobId): Promise<Job<T> | null> {
-    const dbJob = await this.prisma.job.findFirst({
-      where: {
-        jobid: Number(id),
-      },
-    });
-
-    if (!dbJob) return null;
-
-    return await this.toJob(this.dbJobToJob(dbJob));
+  async getById(
+    id: JobId,
+    opts: OccurrencesOptions = {}
+  ): Promise<Job<T> | null> {
+    const dto = await this.backend.getById(this.endpoint, id);
+    return dto ? await this.toJob(dto, opts) : null;
   }
 
   /**
-   * Schedule a job for immediate execution.
+   * Execute a job right away.
+   * On Postgres, it's executed by the next tick, within a minute.
+   * If it's a repeated job, its schedule stays untouched.
    * @returns false if job could not be found.
    */
   async invoke(id: JobId): Promise<boolean> {
-    throw new Error("UNIMPLEMENTED");
-
-    // const res = await this.fetch(this.baseUrl + "/" + id, {
-    //   method: "POST",
-    //   headers: this.defaultHeaders,
-    // });
-
-    // if (res.status === 404) {
-    //   return false;
-    // }
-
-    // if (res.status === 204) {
-    //   return true;
-    // }
-
-    // throw new Error("Unexpected response: " + (await res.text()));
+    return await this.backend.invoke(this.endpoint, id);
   }
 
   /**
-   * Delete a job, preventing it from executing.
+   * Stop executing a job, without losing its schedule.
+   * Only available on Postgres.
    * @returns false if job could not be found.
    */
-  async delete(id: JobId): Promise<boolean> {
-    if (id === "@cron") {
-      const count = await this.deleteExisting(
-        `cron-job:${this.route}`.substring(0, 64)
-      );
-
-      return count > 0;
-    } else if (typeof id === "number") {
-      const { count } = await this.prisma.job.deleteMany({
-        where: {
-          jobid: Number(id),
-        },
-      });
-
-      return count > 0;
-    } else {
-      throw new Error(`Invalid job id for delete: ${id}`);
-    }
-
-    // const res = await this.fetch(this.baseUrl + "/" + id, {
-    //   method: "DELETE",
-    //   headers: this.defaultHeaders,
-    // });
+  async pause(id: JobId): Promise<boolean> {
+    return await this.backend.pause(this.endpoint, id);
+  }
 
-    // if (res.status === 404) {
-    //   return false;
-    // }
+  /**
+   * Continue executing a paused job.
+   * If it became due while it was paused, it's executed once right away,
+   * no matter how many executions it missed.
+   * Cron jobs in UTC are executed by pg_cron, which doesn't catch up.
+   * @returns false if job could not be found.
+   */
+  async resume(id: JobId): Promise<boolean> {
+    return await this.backend.resume(this.endpoint, id);
+  }
 
-    // if (res.status === 204) {
-    //   return true;
-    // }
+  /**
+   * Get the most recent executions of a job, newest first.
+   * Only available on Postgres.
+   * @param opts.limit maximum number of runs to return, defaults to 20.
+   * @param opts.since only return runs started after this date.
+   */
+  async getRuns(id: JobId, opts: GetRunsOptions = {}): Promise<JobRun[]> {
+    return await this.backend.getRuns(this.endpoint, id, opts);
+  }
 
-    // throw new Error("Unexpected response: " + (await res.text()));
+  /**
+   * Get the jobs that failed on their last attempt and won't be executed again,
+   * most recent failure first.
+   */
+  async getFailed(): Promise<FailedJob<T>[]> {
+    const dtos = await this.backend.getFailed(this.endpoint);
+    return await Promise.all(dtos.map((dto) => this.toFailedJob(dto)));
   }
 
-  private async deleteExisting(jobName: string) {
-    const { count } = await this.prisma.job.deleteMany({
-      where: {
-        jobname: jobName,
-      },
-    });
+  /**
+   * Execute a failed job once more, right away.
+   * A job that has been scheduled with the same ID in the meantime is replaced.
+   * @returns null if failed job could not be found.
+   */
+  async retryFailed(id: JobId): Promise<Job<T> | null> {
+    const dto = await this.backend.retryFailed(this.endpoint, id);
+    return dto ? await this.toJob(dto) : null;
+  }
 
-    if (count > 0)
-      console.log(`Deleted ${count} existing job(s) for ${jobName}`);
+  /**
+   * Remove a failed job for good.
+   * @returns false if failed job could not be found.
+   */
+  async discardFailed(id: JobId): Promise<boolean> {
+    return await this.backend.discardFailed(this.endpoint, id);
+  }
 
-    return count;
+  /**
+   * Delete a job, preventing it from executing.
+   * @returns false if job could not be found.
+   */
+  async delete(id: JobId): Promise<boolean> {
+    return await this.backend.delete(this.endpoint, id);
   }
 
   async deleteAll() {
-    const { count } = await this.prisma.job.deleteMany();
+    const count = await this.backend.deleteAll();
 
     if (count > 0) console.log(`Deleted ${count} job(s) during cleanup`);
   }
 
+  /**
+   * Subscribe to the activity of all queues, as shown in the Development UI.
+   * Scheduled jobs are passed as stored, with an encoded body.
+   * @param onError receives errors of the subscription, like a lost connection.
+   * @returns a function that ends the subscription.
+   */
+  async onActivity(
+    cb: (activity: Activity) => void,
+    onError?: (error: Error) => void
+  ): Promise<() => Promise<void>> {
+    return await this.backend.onActivity(cb, onError);
+  }
+
   async respondTo(
     body: string,
     headers: IncomingHttpHeaders
@@ -758,5 +711,16 @@ export class QuirrelClient<T> {
 
 export type QuirrelPublishClient<T> = Pick<
   QuirrelClient<T>,
-  "enqueue" | "enqueueMany" | "delete" | "get" | "getById" | "invoke"
+  | "enqueue"
+  | "enqueueMany"
+  | "delete"
+  | "get"
+  | "getById"
+  | "getRuns"
+  | "invoke"
+  | "pause"
+  | "resume"
+  | "getFailed"
+  | "retryFailed"
+  | "discardFailed"
 >;
@@ -29,6 +29,11 @@ export interface JobDTO {
    */
   readonly exclusive?: boolean;
 
+  /**
+   * Paused jobs keep their schedule, but aren't executed until they're resumed.
+   */
+  readonly paused?: boolean;
+
   /**
    * If a job fails, retry it at along the specified intervals.
    * @example [10, 20, 30] // retries it after 10ms, 20ms and 30ms.
@@ -62,6 +67,12 @@ export interface JobDTO {
      * @see https://github.com/harrisiirak/cron-parser
      */
     readonly cron?: string;
+
+    /**
+     * IANA time zone that `cron` is evaluated in.
+     * Not present for UTC.
+     */
+    readonly timezone?: string;
   };
 }
 
@@ -77,6 +88,12 @@ export interface Job<T> extends Omit<JobDTO, "runAt" | "body"> {
    */
   readonly body: T;
 
+  /**
+   * Upcoming executions, starting with `runAt`.
+   * Only present if requested using the `occurrences` option.
+   */
+  readonly occurrences?: Date[];
+
   /**
    * Delete this job.
    * @returns false if the job already has been deleted.
@@ -89,4 +106,126 @@ export interface Job<T> extends Omit<JobDTO, "runAt" | "body"> {
    * @returns false if the job has been deleted in the meantime.
    */
   invoke(): Promise<boolean>;
+
+  /**
+   * Stop executing this job, without losing its schedule.
+   * @returns false if the job has been deleted in the meantime.
+   */
+  pause(): Promise<boolean>;
+
+  /**
+   * Continue executing this job after it has been paused.
+   * @returns false if the job has been deleted in the meantime.
+   */
+  resume(): Promise<boolean>;
+}
+
+export interface JobRun {
+  /**
+   * ID of the run, increasing with every execution.
+   */
+  readonly id: number;
+
+  /**
+   * ID of the job that was executed.
+   */
+  readonly jobId: JobId;
+
+  /**
+   * True if the job's endpoint responded with a 2xx status.
+   */
+  readonly succeeded: boolean;
+
+  /**
+   * HTTP status the endpoint responded with.
+   */
+  readonly responseStatus?: number;
+
+  /**
+   * Error message, if the request couldn't be made.
+   */
+  readonly message?: string;
+
+  readonly startedAt: Date;
+
+  readonly endedAt: Date;
+
+  /**
+   * Duration of the run in milliseconds.
+   */
+  readonly duration: number;
 }
+
+/**
+ * Job whose last execution failed, and that won't be executed again.
+ */
+export interface FailedJobDTO {
+  readonly id: JobId;
+
+  readonly endpoint: string;
+
+  /**
+   * Stringified and potentially encrypted job payload.
+   */
+  readonly body: string;
+
+  readonly exclusive?: boolean;
+
+  readonly retry?: number[];
+
+  /**
+   * Number of executions, including retries.
+   */
+  readonly attempts: number;
+
+  /**
+   * HTTP status the endpoint responded with on the last attempt.
+   * Not present if the request itself failed.
+   */
+  readonly responseStatus?: number;
+
+  /**
+   * Body the endpoint responded with on the last attempt.
+   */
+  readonly responseBody?: string;
+
+  /**
+   * Reason the request failed, if there's no response.
+   */
+  readonly error?: string;
+
+  /**
+   * @implements ISO-8601
+   */
+  readonly failedAt: string;
+}
+
+export interface FailedJob<T> extends Omit<FailedJobDTO, "body" | "failedAt"> {
+  /**
+   * Job payload.
+   */
+  readonly body: T;
+
+  readonly failedAt: Date;
+}
+
+interface JobReference {
+  readonly endpoint: string;
+  readonly id: string;
+}
+
+/**
+ * Event of Quirrel's activity feed.
+ * `date` is the time it occurred at, in milliseconds since the epoch.
+ */
+export type Activity =
+  | { type: "scheduled"; payload: JobDTO; date: number }
+  | { type: "started"; payload: JobReference; date: number }
+  | { type: "completed"; payload: JobReference; date: number }
+  | { type: "invoked"; payload: JobReference; date: number }
+  | { type: "deleted"; payload: JobReference; date: number }
+  | {
+      type: "rescheduled";
+      payload: JobReference & { readonly runAt: string };
+      date: number;
+    };
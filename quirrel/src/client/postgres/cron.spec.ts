@@ -0,0 +1,34 @@
+import { isSupportedCronExpression } from "./cron";
+
+describe(isSupportedCronExpression.name, () => {
+  test("values, ranges, steps and lists", () => {
+    expect(isSupportedCronExpression("* * * * *")).toBe(true);
+    expect(isSupportedCronExpression("0 9 * * 1-5")).toBe(true);
+    expect(isSupportedCronExpression("*/15 8-18/2 1,15 * *")).toBe(true);
+    expect(isSupportedCronExpression("  30 4 1 1 0  ")).toBe(true);
+  });
+
+  test("month and day names", () => {
+    expect(isSupportedCronExpression("0 9 * JAN,jul MON-FRI")).toBe(true);
+    expect(isSupportedCronExpression("0 9 * * SUN")).toBe(true);
+  });
+
+  test("cron-parser's extensions", () => {
+    expect(isSupportedCronExpression("0 0 L * *")).toBe(false);
+    expect(isSupportedCronExpression("0 0 * * 5L")).toBe(false);
+    expect(isSupportedCronExpression("0 0 * * 1#2")).toBe(false);
+    expect(isSupportedCronExpression("0 0 ? * *")).toBe(false);
+    expect(isSupportedCronExpression("@daily")).toBe(false);
+  });
+
+  test("seconds", () => {
+    expect(isSupportedCronExpression("0 0 9 * * *")).toBe(false);
+  });
+
+  test("out of range", () => {
+    expect(isSupportedCronExpression("60 * * * *")).toBe(false);
+    expect(isSupportedCronExpression("* * 0 * *")).toBe(false);
+    expect(isSupportedCronExpression("* * * * 8")).toBe(false);
+    expect(isSupportedCronExpression("*/0 * * * *")).toBe(false);
+  });
+});
@@ -0,0 +1,63 @@
+const MONTH_NAMES = [
+  "JAN",
+  "FEB",
+  "MAR",
+  "APR",
+  "MAY",
+  "JUN",
+  "JUL",
+  "AUG",
+  "SEP",
+  "OCT",
+  "NOV",
+  "DEC",
+];
+
+const DAY_NAMES = ["SUN", "MON", "TUE", "WED", "THU", "FRI", "SAT"];
+
+const FIELDS = [
+  { min: 0, max: 59 },
+  { min: 0, max: 23 },
+  { min: 1, max: 31 },
+  { min: 1, max: 12, names: MONTH_NAMES },
+  { min: 0, max: 7, names: DAY_NAMES },
+];
+
+const PART = /^(?:\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/;
+
+/**
+ * Whether an expression is understood by `quirrel.cron_next`.
+ * That's five fields of values, ranges, steps and lists, with month and day names,
+ * but none of cron-parser's extensions like `L`, `#`, `?`, seconds or `@daily`.
+ */
+export function isSupportedCronExpression(expression: string): boolean {
+  const fields = expression.trim().toUpperCase().split(/\s+/);
+  if (fields.length !== FIELDS.length) {
+    return false;
+  }
+
+  return fields.every((field, index) => {
+    const { min, max, names = [] } = FIELDS[index];
+
+    // names are numbered from the field's minimum, like quirrel.cron_next does
+    names.forEach((name, nameIndex) => {
+      field = field.split(name).join(String(min + nameIndex));
+    });
+
+    return field.split(",").every((part) => {
+      const match = PART.exec(part);
+      if (!match) {
+        return false;
+      }
+
+      const [, start, end, step] = match;
+
+      const values = [start, end].filter((value) => value !== undefined);
+      if (values.some((value) => +value < min || +value > max)) {
+        return false;
+      }
+
+      return step === undefined || +step > 0;
+    });
+  });
+}
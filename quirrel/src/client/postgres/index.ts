@@ -0,0 +1,644 @@
+import { PrismaClient } from "@prisma/client";
+import { Client } from "pg";
+import * as uuid from "uuid";
+
+import type { Activity, FailedJobDTO, JobDTO, JobId, JobRun } from "../job";
+import type {
+  EnqueueJob,
+  GetOptions,
+  GetRunsOptions,
+  QueuedEndpoint,
+  QuirrelBackend,
+} from "../backend";
+import { ACTIVITY_CHANNEL, FailedJobRow, JobRow, JobRunRow } from "./schema";
+import { migrate } from "./migrate";
+import { callProcedure } from "./sql";
+import { cron } from "../../shared/cron";
+import { isSupportedCronExpression } from "./cron";
+
+/**
+ * ID of the cron job declared using `CronJob`.
+ * Queues may hold further cron jobs, enqueued with their own IDs.
+ */
+const CRON_JOB_ID = "@cron";
+
+const DEFAULT_PAGE_SIZE = 100;
+
+let globalPrisma: PrismaClient | undefined;
+let globalSchemaReady: Promise<void> | undefined;
+
+function rowToRepeat(row: JobRow): JobDTO["repeat"] {
+  switch (row.schedule_type) {
+    case "cron":
+      return {
+        cron: row.schedule_meta!,
+        timezone: row.timezone ?? undefined,
+        times: row.max_times ?? undefined,
+      };
+    case "every":
+      return {
+        every: Number(row.schedule_meta),
+        times: row.max_times ?? undefined,
+      };
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Cron jobs are executed by pg_cron, so their next execution isn't stored.
+ */
+function rowToRunAt(row: JobRow): Date | undefined {
+  if (row.run_at) {
+    return new Date(row.run_at);
+  }
+
+  if (row.schedule_type === "cron") {
+    return cron(new Date(), row.schedule_meta!);
+  }
+
+  return undefined;
+}
+
+function jobRowToJob(row: JobRow): JobDTO {
+  return {
+    id: row.id,
+    body: row.body,
+    endpoint: row.endpoint,
+    runAt: rowToRunAt(row)?.toISOString(),
+    count: row.count,
+    retry: row.retry ?? undefined,
+    exclusive: row.exclusive,
+    paused: row.paused,
+    repeat: rowToRepeat(row),
+  };
+}
+
+function failedJobRowToFailedJob(row: FailedJobRow): FailedJobDTO {
+  return {
+    id: row.id,
+    endpoint: row.endpoint,
+    body: row.body,
+    exclusive: row.exclusive,
+    retry: row.retry ?? undefined,
+    attempts: row.attempts,
+    responseStatus: row.response_status ?? undefined,
+    responseBody: row.response_body ?? undefined,
+    error: row.error ?? undefined,
+    failedAt: new Date(row.failed_at).toISOString(),
+  };
+}
+
+/**
+ * Activity as published by the database.
+ * Scheduled jobs are published as rows, or as a reference if they're too large for a notification.
+ */
+type ActivityNotification =
+  | Exclude<Activity, { type: "scheduled" }>
+  | {
+      type: "scheduled";
+      payload: JobRow | Pick<JobRow, "endpoint" | "id">;
+      date: number;
+    };
+
+function jobRunRowToJobRun(row: JobRunRow): JobRun {
+  const responseStatus = row.response_status ?? undefined;
+  const startedAt = new Date(row.started_at);
+  const endedAt = new Date(row.ended_at);
+
+  return {
+    id: Number(row.runid),
+    jobId: row.id,
+    succeeded:
+      responseStatus !== undefined &&
+      responseStatus >= 200 &&
+      responseStatus < 300,
+    responseStatus,
+    message: row.error ?? undefined,
+    startedAt,
+    endedAt,
+    duration: endedAt.getTime() - startedAt.getTime(),
+  };
+}
+
+/**
+ * Stores jobs in Postgres and executes them using pg_cron.
+ */
+export class PostgresBackend implements QuirrelBackend {
+  private databaseUrl;
+  private token;
+  private signingSecretsStored = new Map<string, Promise<void>>();
+
+  constructor({
+    databaseUrl,
+    token,
+  }: {
+    databaseUrl: string | undefined;
+    token: string | undefined;
+  }) {
+    this.databaseUrl = databaseUrl;
+    this.token = token;
+  }
+
+  private get prisma() {
+    if (!this.databaseUrl)
+      throw new Error("Missing required QUIRREL_DATABASE_URL");
+
+    // only instantiate it once
+    globalPrisma ||= new PrismaClient({
+      datasources: {
+        db: {
+          url: this.databaseUrl,
+        },
+      },
+    });
+
+    return globalPrisma;
+  }
+
+  /**
+   * Applies pending migrations, once per process.
+   * @see `quirrel db migrate`
+   */
+  private async ensureSchema() {
+    globalSchemaReady ||= migrate(this.prisma)
+      .then(() => {})
+      .catch((error) => {
+        globalSchemaReady = undefined;
+        throw error;
+      });
+
+    await globalSchemaReady;
+  }
+
+  /**
+   * Stores the secret that the database signs requests to an endpoint with,
+   * so they pass `respondTo`'s signature check.
+   */
+  private async storeSigningSecret(endpoint: string) {
+    if (!this.token) {
+      return;
+    }
+
+    if (!this.signingSecretsStored.has(endpoint)) {
+      this.signingSecretsStored.set(
+        endpoint,
+        this.prisma.$executeRaw`
+          insert into quirrel.signing_secrets (endpoint, secret)
+          values (${endpoint}, ${this.token})
+          on conflict (endpoint) do update set secret = excluded.secret
+        `
+          .then(() => {})
+          .catch((error: unknown) => {
+            this.signingSecretsStored.delete(endpoint);
+            throw error;
+          })
+      );
+    }
+
+    await this.signingSecretsStored.get(endpoint);
+  }
+
+  beforeExit(cb: () => Promise<void>) {
+    this.prisma.$on("beforeExit", async () => {
+      await cb();
+    });
+  }
+
+  async getAllCronJobs() {
+    await this.ensureSchema();
+
+    const rows: JobRow[] = await this.prisma.$queryRaw`
+      select * from quirrel.jobs
+      where schedule_type = 'cron' and id = ${CRON_JOB_ID}
+    `;
+
+    return rows.map(jobRowToJob);
+  }
+
+  /**
+   * Runs of deleted jobs keep their endpoint, so it's listed for another day.
+   */
+  async getQueuedEndpoints({
+    withCounts,
+  }: {
+    withCounts: boolean;
+  }): Promise<QueuedEndpoint[]> {
+    await this.ensureSchema();
+
+    const rows: {
+      endpoint: string;
+      jobs: number;
+      recent_runs: number;
+    }[] = await this.prisma.$queryRaw`
+      select endpoint, sum(jobs)::integer as jobs, sum(recent_runs)::integer as recent_runs
+      from (
+        select endpoint, 1 as jobs, 0 as recent_runs
+        from quirrel.jobs
+        union all
+        select endpoint, 0, 1
+        from quirrel.job_runs
+        where started_at > now() - interval '1 day'
+      ) as endpoints
+      group by endpoint
+      order by endpoint
+    `;
+
+    return rows.map(({ endpoint, jobs, recent_runs }) =>
+      withCounts ? { endpoint, jobs, recentRuns: recent_runs } : { endpoint }
+    );
+  }
+
+  /**
+   * Cron jobs in UTC are executed by pg_cron, all other jobs by Quirrel's tick.
+   * Repeated jobs are rescheduled by `quirrel.run_job` after every execution.
+   * Existing jobs are kept, unless the new job sets `override`.
+   */
+  async enqueue(endpoint: string, jobs: EnqueueJob[]): Promise<JobDTO[]> {
+    const input = jobs.map((job) => {
+      const id = String(job.id ?? uuid.v4());
+
+      const maxTimes = job.repeat?.times;
+      if (typeof maxTimes === "number" && maxTimes < 1) {
+        throw new Error("repeat.times must be positive");
+      }
+
+      const cronSchedule = job.repeat?.cron;
+      const timezone = job.repeat?.timezone;
+      if (cronSchedule) {
+        // repetitions are computed by quirrel.cron_next
+        if (!isSupportedCronExpression(cronSchedule)) {
+          throw new Error(
+            `repeat.cron "${cronSchedule}" isn't supported on Postgres, which only understands five fields of values, ranges, steps and lists.`
+          );
+        }
+
+        // pg_cron can't delay the start of cron jobs in UTC, so those in other time zones aren't delayed either
+        if (job.delay) {
+          throw new Error(
+            "delay and runAt aren't supported for cron jobs on Postgres, which start with their next occurrence."
+          );
+        }
+
+        return {
+          id,
+          body: job.body,
+          run_at: timezone ? cron(new Date(), cronSchedule, timezone) : null,
+          schedule_type: "cron",
+          schedule_meta: cronSchedule,
+          timezone: timezone ?? null,
+          max_times: maxTimes ?? null,
+          retry: job.retry ?? null,
+          exclusive: !!job.exclusive,
+          cron_command: timezone
+            ? null
+            : callProcedure("quirrel.execute_job", endpoint, id),
+          override: !!job.override,
+        };
+      }
+
+      const every = job.repeat?.every;
+
+      return {
+        id,
+        body: job.body,
+        run_at: new Date(Date.now() + (job.delay ?? 0)),
+        schedule_type: every ? "every" : null,
+        schedule_meta: every ? String(every) : null,
+        timezone: null,
+        max_times: every ? maxTimes ?? null : null,
+        retry: job.retry ?? null,
+        exclusive: !!job.exclusive,
+        cron_command: null,
+        override: !!job.override,
+      };
+    });
+
+    const ids = new Set(input.map((job) => job.id));
+    if (ids.size !== input.length) {
+      throw new Error("Job IDs must be unique within a batch");
+    }
+
+    await this.ensureSchema();
+    await this.storeSigningSecret(endpoint);
+
+    // jobs that exist already are only replaced if they're overridden,
+    // otherwise they're returned as they are.
+    // they're skipped before scheduling, so their pg_cron job stays untouched.
+    const rows: JobRow[] = await this.prisma.$queryRaw`
+      with input as (
+        select *
+        from jsonb_to_recordset(${JSON.stringify(input)}::jsonb)
+          as input(
+            id text,
+            body text,
+            run_at timestamptz,
+            schedule_type text,
+            schedule_meta text,
+            timezone text,
+            max_times integer,
+            retry jsonb,
+            exclusive boolean,
+            cron_command text,
+            override boolean
+          )
+      ),
+      written as (
+        insert into quirrel.jobs (
+          endpoint, id, body, run_at,
+          schedule_type, schedule_meta, timezone, max_times, retry, exclusive, cron_jobid
+        )
+        select
+          ${endpoint}, id, body, run_at,
+          schedule_type, schedule_meta, timezone, max_times, retry, exclusive,
+          case when cron_command is not null then
+            cron.schedule(
+              quirrel.cron_jobname(${endpoint}::text, id),
+              schedule_meta,
+              cron_command
+            )
+          end
+        from input
+        where override or not exists (
+          select 1 from quirrel.jobs
+          where jobs.endpoint = ${endpoint} and jobs.id = input.id
+        )
+        on conflict (endpoint, id) do update
+          set body = excluded.body,
+              run_at = excluded.run_at,
+              count = excluded.count,
+              attempt = excluded.attempt,
+              schedule_type = excluded.schedule_type,
+              schedule_meta = excluded.schedule_meta,
+              timezone = excluded.timezone,
+              max_times = excluded.max_times,
+              retry = excluded.retry,
+              exclusive = excluded.exclusive,
+              cron_jobid = excluded.cron_jobid
+        returning *
+      )
+      select * from written
+      union all
+      select jobs.*
+      from quirrel.jobs
+      join input on input.id = jobs.id
+      where jobs.endpoint = ${endpoint} and not input.override
+    `;
+
+    // `returning` doesn't preserve the input order
+    const rowsById = new Map(rows.map((row) => [row.id, row]));
+
+    return input.map(({ id }) => jobRowToJob(rowsById.get(id)!));
+  }
+
+  /**
+   * Pages through the jobs ordered by ID, continuing after the last ID seen.
+   * Jobs enqueued during the iteration are included if they sort after it.
+   */
+  async *get(
+    endpoint: string,
+    { pageSize = DEFAULT_PAGE_SIZE }: GetOptions
+  ): AsyncGenerator<JobDTO[]> {
+    await this.ensureSchema();
+
+    let cursor: string | null = null;
+    while (true) {
+      const rows: JobRow[] = await this.prisma.$queryRaw`
+        select * from quirrel.jobs
+        where endpoint = ${endpoint}
+          and (${cursor}::text is null or id > ${cursor}::text)
+        order by id
+        limit ${pageSize}
+      `;
+
+      if (rows.length > 0) {
+        yield rows.map(jobRowToJob);
+      }
+
+      if (rows.length < pageSize) {
+        return;
+      }
+
+      cursor = rows[rows.length - 1].id;
+    }
+  }
+
+  async getById(endpoint: string, id: JobId): Promise<JobDTO | null> {
+    await this.ensureSchema();
+
+    const [row]: JobRow[] = await this.prisma.$queryRaw`
+      select * from quirrel.jobs
+      where endpoint = ${endpoint} and id = ${String(id)}
+    `;
+
+    return row ? jobRowToJob(row) : null;
+  }
+
+  /**
+   * Invoked jobs are executed by the next tick, within a minute.
+   */
+  async invoke(endpoint: string, id: JobId): Promise<boolean> {
+    await this.ensureSchema();
+
+    const [{ invoked }]: { invoked: boolean }[] = await this.prisma.$queryRaw`
+      select quirrel.invoke(${endpoint}, ${String(id)}) as invoked
+    `;
+
+    return invoked;
+  }
+
+  /**
+   * Paused cron jobs are deactivated in pg_cron, all others are skipped by the tick.
+   * Jobs stay paused when they're replaced.
+   */
+  async pause(endpoint: string, id: JobId): Promise<boolean> {
+    return await this.setPaused(endpoint, id, true);
+  }
+
+  async resume(endpoint: string, id: JobId): Promise<boolean> {
+    return await this.setPaused(endpoint, id, false);
+  }
+
+  private async setPaused(endpoint: string, id: JobId, paused: boolean) {
+    await this.ensureSchema();
+
+    const count: number = await this.prisma.$executeRaw`
+      update quirrel.jobs set paused = ${paused}
+      where endpoint = ${endpoint} and id = ${String(id)}
+    `;
+
+    return count > 0;
+  }
+
+  /**
+   * Runs are recorded by `quirrel.run_job`, no matter who executed the job.
+   */
+  async getRuns(
+    endpoint: string,
+    id: JobId,
+    { limit = 20, since }: GetRunsOptions
+  ): Promise<JobRun[]> {
+    await this.ensureSchema();
+
+    const startedAfter = since ?? null;
+
+    const rows: JobRunRow[] = await this.prisma.$queryRaw`
+      select * from quirrel.job_runs
+      where endpoint = ${endpoint}
+        and id = ${String(id)}
+        and started_at >= coalesce(${startedAfter}::timestamptz, '-infinity')
+      order by runid desc
+      limit ${limit}
+    `;
+
+    return rows.map(jobRunRowToJobRun);
+  }
+
+  /**
+   * Jobs are moved here by `quirrel.run_job` once they've failed for good.
+   */
+  async getFailed(endpoint: string): Promise<FailedJobDTO[]> {
+    await this.ensureSchema();
+
+    const rows: FailedJobRow[] = await this.prisma.$queryRaw`
+      select * from quirrel.failed_jobs
+      where endpoint = ${endpoint}
+      order by failed_at desc
+    `;
+
+    return rows.map(failedJobRowToFailedJob);
+  }
+
+  /**
+   * The retried job is executed by the tick, once.
+   */
+  async retryFailed(endpoint: string, id: JobId): Promise<JobDTO | null> {
+    await this.ensureSchema();
+
+    const [row]: JobRow[] = await this.prisma.$queryRaw`
+      with failed as (
+        delete from quirrel.failed_jobs
+        where endpoint = ${endpoint} and id = ${String(id)}
+        returning *
+      )
+      insert into quirrel.jobs (endpoint, id, body, run_at, retry, exclusive)
+      select endpoint, id, body, now(), retry, exclusive
+      from failed
+      on conflict (endpoint, id) do update
+        set body = excluded.body,
+            run_at = excluded.run_at,
+            count = excluded.count,
+            attempt = excluded.attempt,
+            schedule_type = excluded.schedule_type,
+            schedule_meta = excluded.schedule_meta,
+            timezone = excluded.timezone,
+            max_times = excluded.max_times,
+            retry = excluded.retry,
+            exclusive = excluded.exclusive,
+            cron_jobid = excluded.cron_jobid
+      returning *
+    `;
+
+    return row ? jobRowToJob(row) : null;
+  }
+
+  async discardFailed(endpoint: string, id: JobId): Promise<boolean> {
+    await this.ensureSchema();
+
+    const count: number = await this.prisma.$executeRaw`
+      delete from quirrel.failed_jobs
+      where endpoint = ${endpoint} and id = ${String(id)}
+    `;
+
+    return count > 0;
+  }
+
+  async delete(endpoint: string, id: JobId): Promise<boolean> {
+    await this.ensureSchema();
+
+    // cron jobs are unscheduled from pg_cron by a trigger
+    const count: number = await this.prisma.$executeRaw`
+      delete from quirrel.jobs
+      where endpoint = ${endpoint} and id = ${String(id)}
+    `;
+
+    return count > 0;
+  }
+
+  async deleteAll() {
+    await this.ensureSchema();
+
+    return await this.prisma.$executeRaw`
+      delete from quirrel.jobs
+    `;
+  }
+
+  /**
+   * Listens for notifications on a dedicated connection, since Prisma can't.
+   * Jobs too large for a notification are fetched before they're reported.
+   */
+  async onActivity(
+    cb: (activity: Activity) => void,
+    onError?: (error: Error) => void
+  ): Promise<() => Promise<void>> {
+    await this.ensureSchema();
+
+    const client = new Client({ connectionString: this.databaseUrl });
+
+    // without a listener, a lost connection would crash the process
+    client.on("error", (error) => {
+      onError?.(error);
+    });
+
+    // keeps activity in order while jobs are fetched
+    let reported = Promise.resolve();
+
+    client.on("notification", ({ payload }) => {
+      if (!payload) {
+        return;
+      }
+
+      let activity: ActivityNotification;
+      try {
+        activity = JSON.parse(payload);
+      } catch (error) {
+        onError?.(error);
+        return;
+      }
+
+      reported = reported.then(async () => {
+        if (activity.type === "rescheduled") {
+          const runAt = new Date(activity.payload.runAt).toISOString();
+          cb({ ...activity, payload: { ...activity.payload, runAt } });
+          return;
+        }
+
+        if (activity.type !== "scheduled") {
+          cb(activity);
+          return;
+        }
+
+        const row = activity.payload;
+        const job =
+          "body" in row
+            ? jobRowToJob(row)
+            : await this.getById(row.endpoint, row.id);
+
+        if (job) {
+          cb({ ...activity, payload: job });
+        }
+      });
+
+      reported = reported.catch((error) => {
+        onError?.(error);
+      });
+    });
+
+    await client.connect();
+    await client.query(`listen ${ACTIVITY_CHANNEL}`);
+
+    return async () => {
+      await client.end();
+    };
+  }
+}
@@ -0,0 +1,126 @@
+import { createHash } from "crypto";
+import { planMigration, Queryable } from "./migrate";
+import { migrations, routines } from "./schema";
+
+function fakeDatabase({
+  extensions,
+  appliedVersions,
+  routinesChecksum,
+}: {
+  extensions: Record<string, string | null>;
+  appliedVersions?: number[];
+  routinesChecksum?: string;
+}): Queryable {
+  return {
+    async $queryRaw(strings: TemplateStringsArray, ...values: unknown[]) {
+      const query = strings.join("?");
+
+      if (query.includes("pg_available_extensions")) {
+        return Object.entries(extensions).map(([name, installed_version]) => ({
+          name,
+          installed_version,
+        }));
+      }
+
+      if (query.includes("to_regclass")) {
+        return [{ provisioned: !!appliedVersions }];
+      }
+
+      if (query.includes("from quirrel.migrations")) {
+        return appliedVersions!.map((version) => ({ version }));
+      }
+
+      if (query.includes("from quirrel.routines")) {
+        return [{ found: values[0] === routinesChecksum }];
+      }
+
+      throw new Error("Unexpected query: " + query);
+    },
+  };
+}
+
+const installedExtensions = { pg_cron: "1.3", http: "1.3", pgcrypto: "1.3" };
+
+const currentChecksum = createHash("sha256")
+  .update(routines.join("\n"))
+  .digest("hex");
+
+describe("planMigration", () => {
+  test("fresh database", async () => {
+    const statements = await planMigration(
+      fakeDatabase({
+        extensions: { ...installedExtensions, pg_cron: null, http: null },
+      })
+    );
+
+    expect(statements[0]).toBe("create extension if not exists pg_cron");
+    expect(statements[1]).toBe("create extension if not exists http");
+    expect(statements[2]).toBe("create schema if not exists quirrel");
+
+    for (const routine of routines) {
+      expect(statements).toContain(routine);
+    }
+
+    for (const { version } of migrations) {
+      expect(statements).toContainEqual(
+        expect.stringContaining(
+          `insert into quirrel.migrations (version, name) values (${version},`
+        )
+      );
+    }
+  });
+
+  test("up-to-date database", async () => {
+    const statements = await planMigration(
+      fakeDatabase({
+        extensions: installedExtensions,
+        appliedVersions: migrations.map(({ version }) => version),
+        routinesChecksum: currentChecksum,
+      })
+    );
+
+    expect(statements).toEqual([]);
+  });
+
+  test("pending migration", async () => {
+    const [latest] = migrations.slice(-1);
+
+    const statements = await planMigration(
+      fakeDatabase({
+        extensions: installedExtensions,
+        appliedVersions: migrations
+          .map(({ version }) => version)
+          .filter((version) => version !== latest.version),
+        routinesChecksum: currentChecksum,
+      })
+    );
+
+    expect(statements).toEqual([
+      ...latest.statements,
+      `insert into quirrel.migrations (version, name) values (${latest.version}, '${latest.name}') on conflict do nothing`,
+    ]);
+  });
+
+  test("changed routines", async () => {
+    const statements = await planMigration(
+      fakeDatabase({
+        extensions: installedExtensions,
+        appliedVersions: migrations.map(({ version }) => version),
+        routinesChecksum: "outdated",
+      })
+    );
+
+    expect(statements).toEqual([
+      ...routines,
+      `insert into quirrel.routines (checksum) values ('${currentChecksum}') on conflict do nothing`,
+    ]);
+  });
+
+  test("missing extension", async () => {
+    await expect(
+      planMigration(fakeDatabase({ extensions: { pgcrypto: "1.3" } }))
+    ).rejects.toThrow(
+      "The following Postgres extensions are missing: pg_cron, http."
+    );
+  });
+});
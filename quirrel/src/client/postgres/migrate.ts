@@ -0,0 +1,155 @@
+import { createHash } from "crypto";
+import type { PrismaClient } from "@prisma/client";
+import { migrations, requiredExtensions, routines } from "./schema";
+import { quoteLiteral } from "./sql";
+
+const bookkeeping = [
+  `create schema if not exists quirrel`,
+
+  `
+  create table if not exists quirrel.migrations (
+    version integer primary key,
+    name text not null,
+    applied_at timestamptz not null default now()
+  )
+  `,
+
+  `
+  create table if not exists quirrel.routines (
+    checksum text primary key,
+    applied_at timestamptz not null default now()
+  )
+  `,
+];
+
+// open the transaction that migrations are applied in
+const prelude = [
+  // concurrently starting processes apply migrations one after another
+  `select pg_advisory_xact_lock(hashtext('quirrel'), hashtext('migrate'))`,
+
+  // routines and migrations depend on one another,
+  // so routines are created before the tables they use exist
+  `set local check_function_bodies = off`,
+];
+
+/**
+ * The part of Prisma's client that planning a migration needs.
+ */
+export interface Queryable {
+  $queryRaw(query: TemplateStringsArray, ...values: unknown[]): Promise<any>;
+}
+
+function checksum(statements: string[]) {
+  return createHash("sha256").update(statements.join("\n")).digest("hex");
+}
+
+/**
+ * Computes the statements needed to bring the database up to date.
+ * @throws if one of the required extensions isn't available.
+ */
+export async function planMigration(prisma: Queryable): Promise<string[]> {
+  const extensions: {
+    name: string;
+    installed_version: string | null;
+  }[] = await prisma.$queryRaw`
+    select name, installed_version from pg_available_extensions
+  `;
+
+  const unavailable = requiredExtensions.filter(
+    (name) => !extensions.some((extension) => extension.name === name)
+  );
+  if (unavailable.length > 0) {
+    throw new Error(
+      `The following Postgres extensions are missing: ${unavailable.join(
+        ", "
+      )}. Please install them on your database server.`
+    );
+  }
+
+  const statements = requiredExtensions
+    .filter((name) =>
+      extensions.some(
+        (extension) =>
+          extension.name === name && extension.installed_version === null
+      )
+    )
+    .map((name) => `create extension if not exists ${name}`);
+
+  const [{ provisioned }]: {
+    provisioned: boolean;
+  }[] = await prisma.$queryRaw`
+    select to_regclass('quirrel.migrations') is not null
+      and to_regclass('quirrel.routines') is not null as provisioned
+  `;
+
+  let appliedVersions: number[] = [];
+  let routinesApplied = false;
+
+  const routinesChecksum = checksum(routines);
+
+  if (provisioned) {
+    const applied: { version: number }[] = await prisma.$queryRaw`
+      select version from quirrel.migrations
+    `;
+    appliedVersions = applied.map(({ version }) => version);
+
+    const [{ found }]: { found: boolean }[] = await prisma.$queryRaw`
+      select exists (
+        select 1 from quirrel.routines where checksum = ${routinesChecksum}
+      ) as found
+    `;
+    routinesApplied = found;
+  } else {
+    statements.push(...bookkeeping);
+  }
+
+  if (!routinesApplied) {
+    statements.push(
+      ...routines,
+      `insert into quirrel.routines (checksum) values (${quoteLiteral(
+        routinesChecksum
+      )}) on conflict do nothing`
+    );
+  }
+
+  for (const migration of migrations) {
+    if (appliedVersions.includes(migration.version)) {
+      continue;
+    }
+
+    statements.push(
+      ...migration.statements,
+      `insert into quirrel.migrations (version, name) values (${
+        migration.version
+      }, ${quoteLiteral(migration.name)}) on conflict do nothing`
+    );
+  }
+
+  return statements;
+}
+
+/**
+ * Creates the required extensions and applies pending migrations,
+ * all in one transaction.
+ * @returns the statements of that transaction, which were executed unless it's a dry run.
+ */
+export async function migrate(
+  prisma: PrismaClient,
+  { dryRun = false }: { dryRun?: boolean } = {}
+): Promise<string[]> {
+  const pending = await planMigration(prisma);
+
+  if (pending.length === 0) {
+    return [];
+  }
+
+  const statements = [...prelude, ...pending];
+
+  if (!dryRun) {
+    await prisma.$transaction(
+      statements.map((statement) => prisma.$executeRaw(statement))
+    );
+  }
+
+  return statements;
+}
@@ -0,0 +1,44 @@
+import type { PrismaClient } from "@prisma/client";
+
+export interface RetentionOptions {
+  /**
+   * Runs older than this are pruned, in milliseconds.
+   * null keeps runs regardless of their age.
+   */
+  maxAge?: number | null;
+
+  /**
+   * Only this many runs are kept per job.
+   * null keeps any number of runs.
+   */
+  maxRunsPerJob?: number | null;
+}
+
+/**
+ * Stores the retention that the maintenance job enforces, if given,
+ * and prunes the run history right away.
+ * @returns the number of pruned runs.
+ */
+export async function prune(
+  prisma: PrismaClient,
+  { maxAge, maxRunsPerJob }: RetentionOptions = {}
+): Promise<number> {
+  await prisma.$executeRaw`
+    update quirrel.retention
+    set
+      max_age = case
+        when ${maxAge === undefined} then max_age
+        else ${maxAge ?? null}::bigint * interval '1 millisecond'
+      end,
+      max_runs_per_job = case
+        when ${maxRunsPerJob === undefined} then max_runs_per_job
+        else ${maxRunsPerJob ?? null}::integer
+      end
+  `;
+
+  const [{ pruned }]: { pruned: number }[] = await prisma.$queryRaw`
+    select quirrel.prune_job_runs()::integer as pruned
+  `;
+
+  return pruned;
+}
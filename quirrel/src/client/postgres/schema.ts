@@ -0,0 +1,851 @@
+/**
+ * Name of the single pg_cron job that sweeps `quirrel.jobs`.
+ */
+export const TICK_JOB_NAME = "quirrel-tick";
+
+/**
+ * How often the tick runs.
+ * pg_cron's resolution is one minute, so delayed jobs are executed
+ * within a minute of their `runAt`.
+ */
+export const TICK_SCHEDULE = "* * * * *";
+
+/**
+ * Name of the pg_cron job that prunes the run history.
+ */
+export const MAINTENANCE_JOB_NAME = "quirrel-maintenance";
+
+export const MAINTENANCE_SCHEDULE = "17 * * * *";
+
+/**
+ * How long runs are kept unless configured otherwise.
+ * @see `quirrel db prune`
+ */
+export const DEFAULT_RETENTION = "7 days";
+
+/**
+ * How long the database waits for a job's endpoint to respond,
+ * unless `quirrel.request_timeout` is set.
+ */
+export const DEFAULT_REQUEST_TIMEOUT = "30 seconds";
+
+/**
+ * Channel that activity is published on, using the shapes of Quirrel's activity feed.
+ * Notifications are delivered once their transaction commits.
+ */
+export const ACTIVITY_CHANNEL = "quirrel_activity";
+
+export interface JobRow {
+  endpoint: string;
+  id: string;
+  body: string;
+  /**
+   * null for cron jobs, those are executed by pg_cron.
+   */
+  run_at: Date | null;
+  count: number;
+  /**
+   * Attempt at the current execution, starting at 1.
+   * Reset once an execution succeeds or its retries are exhausted.
+   */
+  attempt: number;
+  schedule_type: "cron" | "every" | null;
+  /**
+   * Cron expression, or interval in milliseconds.
+   */
+  schedule_meta: string | null;
+  /**
+   * IANA time zone of a cron expression, null for UTC.
+   * pg_cron only knows UTC, so these jobs are executed by the tick.
+   */
+  timezone: string | null;
+  cron_jobid: number | null;
+  /**
+   * Retry intervals in milliseconds.
+   */
+  retry: number[] | null;
+  exclusive: boolean;
+  /**
+   * Number of executions after which a repeated job is done.
+   */
+  max_times: number | null;
+  /**
+   * Paused jobs keep their schedule, but aren't executed.
+   */
+  paused: boolean;
+  /**
+   * Set by an invocation, until the tick has executed the job.
+   */
+  invoked_at: Date | null;
+}
+
+export interface JobRunRow {
+  runid: number;
+  endpoint: string;
+  id: string;
+  started_at: Date;
+  ended_at: Date;
+  response_status: number | null;
+  error: string | null;
+}
+
+export interface FailedJobRow {
+  endpoint: string;
+  id: string;
+  body: string;
+  exclusive: boolean;
+  retry: number[] | null;
+  attempts: number;
+  response_status: number | null;
+  response_body: string | null;
+  error: string | null;
+  failed_at: Date;
+}
+
+/**
+ * Extensions Quirrel relies on.
+ * pg_cron needs to be preloaded and is only available in `cron.database_name`.
+ */
+export const requiredExtensions = ["pg_cron", "http", "pgcrypto"];
+
+/**
+ * Quirrel's functions, procedures and trigger functions.
+ * They're re-created whenever one of their definitions changes.
+ */
+export const routines: string[] = [
+  // Signs a request body the same way `secure-webhooks` does.
+  `
+  create or replace function quirrel.sign(body text, secret text)
+  returns text
+  language sql
+  volatile
+  as $$
+    select 'v=' || ts || ',d=' || encode(hmac(body || ts, secret, 'sha256'), 'hex')
+    from (select (extract(epoch from clock_timestamp()) * 1000)::bigint::text as ts) as signed_at
+  $$
+  `,
+
+  // Expands a single field of a cron expression into the values it matches.
+  `
+  create or replace function quirrel.cron_field(field text, min_value integer, max_value integer)
+  returns integer[]
+  language plpgsql
+  immutable
+  as $$
+  declare
+    part text;
+    range_part text;
+    step integer;
+    range_start integer;
+    range_end integer;
+    result integer[] := '{}';
+  begin
+    foreach part in array string_to_array(field, ',') loop
+      range_part := split_part(part, '/', 1);
+      step := coalesce(nullif(split_part(part, '/', 2), '')::integer, 1);
+
+      if range_part = '*' then
+        range_start := min_value;
+        range_end := max_value;
+      elsif range_part like '%-%' then
+        range_start := split_part(range_part, '-', 1)::integer;
+        range_end := split_part(range_part, '-', 2)::integer;
+      else
+        range_start := range_part::integer;
+        range_end := case when part like '%/%' then max_value else range_start end;
+      end if;
+
+      result := result || array(select generate_series(range_start, range_end, step));
+    end loop;
+
+    return result;
+  end;
+  $$
+  `,
+
+  // Computes the next execution of a cron expression, the way pg_cron does,
+  // but evaluated in the given time zone.
+  `
+  create or replace function quirrel.cron_next(expression text, after timestamptz, timezone text)
+  returns timestamptz
+  language plpgsql
+  stable
+  as $$
+  declare
+    fields text[] := regexp_split_to_array(upper(trim(expression)), '\\s+');
+    month_names text[] := array['JAN','FEB','MAR','APR','MAY','JUN','JUL','AUG','SEP','OCT','NOV','DEC'];
+    day_names text[] := array['SUN','MON','TUE','WED','THU','FRI','SAT'];
+    minutes integer[];
+    hours integer[];
+    days integer[];
+    months integer[];
+    weekdays integer[];
+    day_matches boolean;
+    candidate timestamp := date_trunc('minute', after at time zone timezone) + interval '1 minute';
+    give_up timestamp := candidate + interval '5 years';
+  begin
+    for i in 1..12 loop
+      fields[4] := replace(fields[4], month_names[i], i::text);
+    end loop;
+
+    for i in 1..7 loop
+      fields[5] := replace(fields[5], day_names[i], (i - 1)::text);
+    end loop;
+
+    minutes := quirrel.cron_field(fields[1], 0, 59);
+    hours := quirrel.cron_field(fields[2], 0, 23);
+    days := quirrel.cron_field(fields[3], 1, 31);
+    months := quirrel.cron_field(fields[4], 1, 12);
+    weekdays := quirrel.cron_field(fields[5], 0, 7);
+
+    -- both 0 and 7 mean sunday
+    if 7 = any(weekdays) then
+      weekdays := weekdays || 0;
+    end if;
+
+    while candidate < give_up loop
+      if not extract(month from candidate)::integer = any(months) then
+        candidate := date_trunc('month', candidate) + interval '1 month';
+        continue;
+      end if;
+
+      -- if both day-of-month and day-of-week are restricted, either one needs to match
+      if left(fields[3], 1) <> '*' and left(fields[5], 1) <> '*' then
+        day_matches := extract(day from candidate)::integer = any(days)
+          or extract(dow from candidate)::integer = any(weekdays);
+      else
+        day_matches := extract(day from candidate)::integer = any(days)
+          and extract(dow from candidate)::integer = any(weekdays);
+      end if;
+
+      if not day_matches then
+        candidate := date_trunc('day', candidate) + interval '1 day';
+        continue;
+      end if;
+
+      if not extract(hour from candidate)::integer = any(hours) then
+        candidate := date_trunc('hour', candidate) + interval '1 hour';
+        continue;
+      end if;
+
+      if not extract(minute from candidate)::integer = any(minutes) then
+        candidate := candidate + interval '1 minute';
+        continue;
+      end if;
+
+      return candidate at time zone timezone;
+    end loop;
+
+    return null;
+  end;
+  $$
+  `,
+
+  // Sends an HTTP request. Everything is passed as parameters,
+  // so no SQL is ever built from request data.
+  `
+  create or replace function quirrel.http_request(
+    method text,
+    url text,
+    headers jsonb,
+    body text,
+    content_type text default 'text/plain'
+  )
+  returns http_response
+  language sql
+  volatile
+  as $$
+    select http((
+      method,
+      url,
+      array(select http_header(key, value) from jsonb_each_text(coalesce(headers, '{}'))),
+      content_type,
+      body
+    )::http_request)
+  $$
+  `,
+
+  // Computes when a failed job is retried, the way Owl's `computeTimestampForNextRetry` does.
+  // Retry intervals are relative to the execution's first attempt.
+  `
+  create or replace function quirrel.next_retry(run_at timestamptz, retry jsonb, current_try integer)
+  returns timestamptz
+  language sql
+  immutable
+  as $$
+    select run_at + (
+      (retry ->> (current_try - 1))::bigint
+      - case when current_try >= 2 then (retry ->> (current_try - 2))::bigint else 0 end
+    ) * interval '1 millisecond'
+    where current_try <= jsonb_array_length(coalesce(retry, '[]'))
+  $$
+  `,
+
+  `
+  create or replace function quirrel.notify_activity(activity_type text, payload jsonb)
+  returns void
+  language sql
+  volatile
+  as $$
+    select pg_notify('${ACTIVITY_CHANNEL}', jsonb_build_object(
+      'type', activity_type,
+      'payload', payload,
+      'date', (extract(epoch from clock_timestamp()) * 1000)::bigint
+    )::text)
+  $$
+  `,
+
+  `
+  create or replace function quirrel.run_job(job_endpoint text, job_id text)
+  returns integer
+  language plpgsql
+  as $$
+  declare
+    job quirrel.jobs;
+    next_repetition timestamptz;
+    signing_secret text;
+    headers jsonb;
+    response_status integer;
+    response_body text;
+    request_error text;
+    request_started_at timestamptz;
+    failed boolean;
+    retry_at timestamptz;
+  begin
+    select * into job
+    from quirrel.jobs
+    where endpoint = job_endpoint and id = job_id
+    for update;
+
+    if not found then
+      return null;
+    end if;
+
+    -- exclusive jobs don't run alongside any other job of their queue.
+    -- the lock is held until the execution's transaction ends.
+    if job.exclusive then
+      perform pg_advisory_xact_lock(hashtext('quirrel'), hashtext(job.endpoint));
+    else
+      perform pg_advisory_xact_lock_shared(hashtext('quirrel'), hashtext(job.endpoint));
+    end if;
+
+    if job.schedule_type = 'cron' then
+      next_repetition := quirrel.cron_next(job.schedule_meta, now(), coalesce(job.timezone, 'UTC'));
+    elsif job.schedule_type = 'every' then
+      -- intervals are relative to the scheduled execution, so they don't drift.
+      -- jobs that were invoked early keep their schedule.
+      -- slots that were missed, e.g. while paused, are skipped instead of caught up on one by one.
+      next_repetition := case
+        when job.run_at > now() then job.run_at
+        else job.run_at + (
+          floor(extract(epoch from now() - job.run_at) * 1000 / job.schedule_meta::bigint) + 1
+        ) * job.schedule_meta::bigint * interval '1 millisecond'
+      end;
+    end if;
+
+    if job.count >= job.max_times then
+      next_repetition := null;
+    end if;
+
+    headers := jsonb_build_object(
+      'x-quirrel-meta',
+      json_strip_nulls(json_build_object(
+        'id', job.id,
+        'count', job.count,
+        'retry', job.retry,
+        'exclusive', job.exclusive,
+        'nextRepetition', next_repetition
+      ))::text
+    );
+
+    select secret into signing_secret
+    from quirrel.signing_secrets
+    where endpoint = job.endpoint;
+
+    if signing_secret is not null then
+      headers := headers || jsonb_build_object('x-quirrel-signature', quirrel.sign(job.body, signing_secret));
+    end if;
+
+    begin
+      -- pgsql-http gives up after 5 seconds otherwise
+      perform set_config(
+        'http.timeout_msec',
+        (extract(epoch from coalesce(
+          nullif(current_setting('quirrel.request_timeout', true), ''),
+          '${DEFAULT_REQUEST_TIMEOUT}'
+        )::interval) * 1000)::bigint::text,
+        true
+      );
+
+      request_started_at := clock_timestamp();
+
+      select status, content into response_status, response_body
+      from quirrel.http_request('POST', job.endpoint, headers, job.body);
+    exception when others then
+      request_error := sqlerrm;
+      raise warning 'quirrel: executing % on % failed: %', job.id, job.endpoint, request_error;
+    end;
+
+    insert into quirrel.job_runs (endpoint, id, started_at, ended_at, response_status, error)
+    values (
+      job.endpoint, job.id, coalesce(request_started_at, clock_timestamp()), clock_timestamp(),
+      response_status, request_error
+    );
+
+    perform quirrel.notify_activity('completed', jsonb_build_object('endpoint', job.endpoint, 'id', job.id));
+
+    -- if the job is removed below, that's part of completing it.
+    -- quirrel.notify_job_activity doesn't report it as deleted.
+    perform set_config('quirrel.completed_job', job.endpoint || E'\\n' || job.id, true);
+
+    failed := response_status is null or response_status not between 200 and 299;
+
+    -- a 404 means the job's endpoint is gone, so it isn't retried nor repeated
+    if response_status = 404 then
+      next_repetition := null;
+    elsif failed then
+      retry_at := quirrel.next_retry(coalesce(job.run_at, now()), job.retry, job.attempt);
+    end if;
+
+    if retry_at is not null or next_repetition is not null then
+      -- cron jobs with a pending retry are picked up by the tick,
+      -- their regular executions stay with pg_cron.
+      -- all other repeated jobs are rescheduled for the tick.
+      update quirrel.jobs
+      set
+        count = count + 1,
+        attempt = case when retry_at is not null then attempt + 1 else 1 end,
+        run_at = coalesce(retry_at, case when job.cron_jobid is null then next_repetition end),
+        invoked_at = null
+      where endpoint = job.endpoint and id = job.id;
+    else
+      -- jobs that fail for good are kept, so they can be retried
+      if failed then
+        insert into quirrel.failed_jobs (
+          endpoint, id, body, exclusive, retry, attempts, response_status, response_body, error
+        )
+        values (
+          job.endpoint, job.id, job.body, job.exclusive, job.retry, job.attempt,
+          response_status, response_body, request_error
+        )
+        on conflict (endpoint, id) do update
+          set body = excluded.body,
+              exclusive = excluded.exclusive,
+              retry = excluded.retry,
+              attempts = excluded.attempts,
+              response_status = excluded.response_status,
+              response_body = excluded.response_body,
+              error = excluded.error,
+              failed_at = excluded.failed_at;
+      end if;
+
+      delete from quirrel.jobs
+      where endpoint = job.endpoint and id = job.id;
+    end if;
+
+    return response_status;
+  end;
+  $$
+  `,
+
+  `
+  create or replace procedure quirrel.tick()
+  language plpgsql
+  as $$
+  declare
+    due record;
+    -- jobs that raised an error are skipped for the rest of the tick,
+    -- so they don't hold up the jobs due after them.
+    skipped text[] := '{}';
+  begin
+    loop
+      -- invoked jobs are executed even if they're paused
+      select endpoint, id into due
+      from quirrel.jobs
+      where ((run_at <= now() and not paused) or invoked_at is not null)
+        and not (endpoint || E'\\n' || id = any(skipped))
+      order by coalesce(invoked_at, run_at)
+      limit 1
+      for update skip locked;
+
+      exit when not found;
+
+      -- published in a transaction of its own, so it's delivered before the request is made
+      perform quirrel.notify_activity('started', jsonb_build_object('endpoint', due.endpoint, 'id', due.id));
+      commit;
+
+      begin
+        -- committing released the job, so another tick may have executed it in the meantime
+        perform 1 from quirrel.jobs
+        where endpoint = due.endpoint and id = due.id
+          and ((run_at <= now() and not paused) or invoked_at is not null)
+        for update skip locked;
+
+        if found then
+          perform quirrel.run_job(due.endpoint, due.id);
+        end if;
+      exception when others then
+        raise warning 'quirrel: executing % on % raised: %', due.id, due.endpoint, sqlerrm;
+        skipped := skipped || (due.endpoint || E'\\n' || due.id);
+      end;
+
+      -- every job is executed in its own transaction,
+      -- so one slow or failing endpoint doesn't hold up the rest.
+      commit;
+    end loop;
+  end;
+  $$
+  `,
+
+  // Executes a job on behalf of pg_cron.
+  // Its start is published in a transaction of its own, so it's delivered before the request is made.
+  `
+  create or replace procedure quirrel.execute_job(job_endpoint text, job_id text)
+  language plpgsql
+  as $$
+  begin
+    if not exists (select 1 from quirrel.jobs where endpoint = job_endpoint and id = job_id) then
+      return;
+    end if;
+
+    perform quirrel.notify_activity('started', jsonb_build_object('endpoint', job_endpoint, 'id', job_id));
+    commit;
+
+    perform quirrel.run_job(job_endpoint, job_id);
+  end;
+  $$
+  `,
+
+  // Invoked jobs are executed by the next tick, so callers don't wait for the request.
+  `
+  create or replace function quirrel.invoke(job_endpoint text, job_id text)
+  returns boolean
+  language plpgsql
+  as $$
+  begin
+    update quirrel.jobs
+    set invoked_at = coalesce(invoked_at, now())
+    where endpoint = job_endpoint and id = job_id;
+
+    if not found then
+      return false;
+    end if;
+
+    perform quirrel.notify_activity('invoked', jsonb_build_object('endpoint', job_endpoint, 'id', job_id));
+
+    return true;
+  end;
+  $$
+  `,
+
+  `
+  create or replace function quirrel.unschedule_cron_job()
+  returns trigger
+  language plpgsql
+  as $$
+  begin
+    if old.cron_jobid is not null
+      and (tg_op = 'DELETE' or old.cron_jobid is distinct from new.cron_jobid)
+    then
+      delete from cron.job where jobid = old.cron_jobid;
+    end if;
+
+    return null;
+  end;
+  $$
+  `,
+
+  // pg_cron executes cron jobs, so they're paused by deactivating them there.
+  `
+  create or replace function quirrel.sync_cron_job_active()
+  returns trigger
+  language plpgsql
+  as $$
+  begin
+    if new.cron_jobid is not null then
+      update cron.job set active = not new.paused
+      where jobid = new.cron_jobid and active = new.paused;
+    end if;
+
+    return null;
+  end;
+  $$
+  `,
+
+  // Runs are counted per Quirrel job, so a job that was scheduled anew keeps its earlier runs in mind.
+  // pg_cron keeps its own record of every run in cron.job_run_details, which isn't cleaned up by itself.
+  // Those of Quirrel's pg_cron jobs are pruned, too. They're told apart by their command,
+  // so the ones of other pg_cron jobs stay untouched.
+  `
+  create or replace function quirrel.prune_job_runs()
+  returns bigint
+  language plpgsql
+  as $$
+  declare
+    retention quirrel.retention;
+    pruned bigint;
+  begin
+    select * into retention from quirrel.retention;
+
+    with ranked as (
+      select
+        runid,
+        started_at,
+        row_number() over (partition by endpoint, id order by runid desc) as position
+      from quirrel.job_runs
+    ),
+    deleted as (
+      delete from quirrel.job_runs
+      where runid in (
+        select runid from ranked
+        where started_at < now() - retention.max_age
+          or position > retention.max_runs_per_job
+      )
+      returning runid
+    )
+    select count(*) into pruned from deleted;
+
+    with ranked as (
+      select
+        runid,
+        start_time,
+        row_number() over (partition by jobid order by runid desc) as position
+      from cron.job_run_details
+      where command ~ '^(select|call) quirrel\\.'
+    )
+    delete from cron.job_run_details
+    where runid in (
+      select runid from ranked
+      where start_time < now() - retention.max_age
+        or position > retention.max_runs_per_job
+    );
+
+    return pruned;
+  end;
+  $$
+  `,
+
+  // Publishes changes to quirrel.jobs. Executions are published by quirrel.run_job and whoever calls it.
+  `
+  create or replace function quirrel.notify_job_activity()
+  returns trigger
+  language plpgsql
+  as $$
+  declare
+    reference jsonb;
+    scheduled jsonb;
+  begin
+    if tg_op in ('UPDATE', 'DELETE') then
+      reference := jsonb_build_object('endpoint', old.endpoint, 'id', old.id);
+    end if;
+
+    if tg_op = 'DELETE' then
+      if current_setting('quirrel.completed_job', true) is distinct from old.endpoint || E'\\n' || old.id then
+        perform quirrel.notify_activity('deleted', reference);
+      end if;
+
+      return null;
+    end if;
+
+    if tg_op = 'UPDATE' then
+      -- executed, and due again
+      if new.count > old.count then
+        perform quirrel.notify_activity('rescheduled', reference || jsonb_build_object(
+          'runAt',
+          coalesce(new.run_at, quirrel.cron_next(new.schedule_meta, now(), coalesce(new.timezone, 'UTC')))
+        ));
+
+        return null;
+      end if;
+
+      if new.paused is distinct from old.paused or new.invoked_at is distinct from old.invoked_at then
+        return null;
+      end if;
+
+      -- replaced by an enqueue
+      perform quirrel.notify_activity('deleted', reference);
+    end if;
+
+    -- notifications are limited to 8000 bytes, large jobs need to be fetched by the listener
+    scheduled := to_jsonb(new);
+    if octet_length(scheduled::text) > 7000 then
+      scheduled := jsonb_build_object('endpoint', new.endpoint, 'id', new.id);
+    end if;
+
+    perform quirrel.notify_activity('scheduled', scheduled);
+
+    return null;
+  end;
+  $$
+  `,
+
+  // pg_cron job names are of type name, which holds 63 bytes.
+  // They start with a readable prefix of at most 37 bytes, cut between characters,
+  // and end in a hash of the full endpoint and ID, so they can't collide.
+  // quirrel.jobs maps them back to the full endpoint via cron_jobid.
+  `
+  create or replace function quirrel.cron_jobname(job_endpoint text, job_id text)
+  returns text
+  language sql
+  immutable
+  as $$
+    select 'cron-job:'
+      || (
+        select left(readable, characters)
+        from generate_series(37, 0, -1) as characters
+        where octet_length(left(readable, characters)) <= 37
+        order by characters desc
+        limit 1
+      )
+      || ':'
+      || left(encode(digest(job_endpoint || E'\\n' || job_id, 'sha256'), 'hex'), 16)
+    from (
+      select regexp_replace(job_endpoint, '^https?://[^/]*/', '') || ':' || job_id as readable
+    ) as prefix
+  $$
+  `,
+];
+
+export interface Migration {
+  version: number;
+  name: string;
+  statements: string[];
+}
+
+/**
+ * Versioned changes to Quirrel's tables, applied once and in order.
+ */
+export const migrations: Migration[] = [
+  {
+    version: 1,
+    name: "initial",
+    statements: [
+      `
+      create table quirrel.jobs (
+        endpoint text not null,
+        id text not null,
+        body text not null default '',
+        run_at timestamptz,
+        created_at timestamptz not null default now(),
+        count integer not null default 1,
+        -- count includes a repeated job's earlier executions, so retries are counted separately
+        attempt integer not null default 1,
+        schedule_type text,
+        schedule_meta text,
+        timezone text,
+        max_times integer,
+        retry jsonb,
+        exclusive boolean not null default false,
+        paused boolean not null default false,
+        invoked_at timestamptz,
+        cron_jobid bigint,
+        primary key (endpoint, id)
+      )
+      `,
+
+      `create index jobs_run_at_idx on quirrel.jobs (run_at)`,
+
+      `create index jobs_invoked_at_idx on quirrel.jobs (invoked_at) where invoked_at is not null`,
+
+      // Secrets that requests to an endpoint are signed with.
+      // They're kept out of cron.job.command, which is readable by every database user.
+      `
+      create table quirrel.signing_secrets (
+        endpoint text primary key,
+        secret text not null
+      )
+      `,
+
+      `revoke all on quirrel.signing_secrets from public`,
+
+      // Every execution of a job, by pg_cron, the tick or an invocation.
+      // Runs outlive deleted jobs, so they aren't tied to quirrel.jobs.
+      `
+      create table quirrel.job_runs (
+        runid bigserial primary key,
+        endpoint text not null,
+        id text not null,
+        started_at timestamptz not null,
+        ended_at timestamptz not null,
+        response_status integer,
+        error text
+      )
+      `,
+
+      `create index job_runs_job_idx on quirrel.job_runs (endpoint, id)`,
+
+      `create index job_runs_started_at_idx on quirrel.job_runs (started_at)`,
+
+      // Dead letters: jobs whose last execution failed and that won't be executed again.
+      `
+      create table quirrel.failed_jobs (
+        endpoint text not null,
+        id text not null,
+        body text not null,
+        exclusive boolean not null default false,
+        retry jsonb,
+        attempts integer not null,
+        response_status integer,
+        response_body text,
+        error text,
+        failed_at timestamptz not null default now(),
+        primary key (endpoint, id)
+      )
+      `,
+
+      // Holds a single row, null disables the respective limit.
+      `
+      create table quirrel.retention (
+        singleton boolean primary key default true check (singleton),
+        max_age interval,
+        max_runs_per_job integer check (max_runs_per_job > 0)
+      )
+      `,
+
+      `insert into quirrel.retention (max_age) values (interval '${DEFAULT_RETENTION}')`,
+
+      `
+      create trigger jobs_unschedule_cron_job
+      after update or delete on quirrel.jobs
+      for each row execute procedure quirrel.unschedule_cron_job()
+      `,
+
+      // Re-scheduling a cron job lists cron_jobid, so it stays paused.
+      `
+      create trigger jobs_sync_cron_job_active
+      after insert or update of paused, cron_jobid on quirrel.jobs
+      for each row execute procedure quirrel.sync_cron_job_active()
+      `,
+
+      `
+      create trigger jobs_notify_activity
+      after insert or update or delete on quirrel.jobs
+      for each row execute procedure quirrel.notify_job_activity()
+      `,
+
+      // Cron jobs used to be registered with pg_cron directly,
+      // calling their endpoint from within cron.job.command.
+      // Their names were cut short, so jobs on long routes could overwrite one another.
+      `
+      insert into quirrel.jobs (endpoint, id, schedule_type, schedule_meta, cron_jobid)
+      select substring(command from '''(https?://.*?)'''), '@cron', 'cron', schedule, jobid
+      from cron.job
+      where jobname like 'cron-job:%'
+      on conflict (endpoint, id) do nothing
+      `,
+
+      `
+      update cron.job
+      set
+        command = format('call quirrel.execute_job(%L, %L)', jobs.endpoint, jobs.id),
+        jobname = quirrel.cron_jobname(jobs.endpoint, jobs.id)
+      from quirrel.jobs
+      where cron.job.jobid = jobs.cron_jobid
+      `,
+
+      `select cron.schedule('${TICK_JOB_NAME}', '${TICK_SCHEDULE}', 'call quirrel.tick()')`,
+
+      `select cron.schedule('${MAINTENANCE_JOB_NAME}', '${MAINTENANCE_SCHEDULE}', 'select quirrel.prune_job_runs()')`,
+    ],
+  },
+];
@@ -0,0 +1,65 @@
+import { callProcedure, quoteLiteral } from "./sql";
+
+describe("quoteLiteral", () => {
+  test("plain strings", () => {
+    expect(quoteLiteral("https://example.com/api/queue")).toBe(
+      "'https://example.com/api/queue'"
+    );
+    expect(quoteLiteral("")).toBe("''");
+  });
+
+  test("single quotes", () => {
+    expect(quoteLiteral("it's")).toBe("'it''s'");
+    expect(quoteLiteral("'")).toBe("''''");
+  });
+
+  test("injection attempts", () => {
+    expect(quoteLiteral("'); drop table quirrel.jobs; --")).toBe(
+      "'''); drop table quirrel.jobs; --'"
+    );
+    expect(quoteLiteral("$$; select pg_sleep(10); $$")).toBe(
+      "'$$; select pg_sleep(10); $$'"
+    );
+  });
+
+  test("backslashes", () => {
+    expect(quoteLiteral("C:\\path")).toBe("E'C:\\\\path'");
+    expect(quoteLiteral("\\'; select 1; --")).toBe("E'\\\\''; select 1; --'");
+  });
+
+  test("JSON payloads", () => {
+    const payload = JSON.stringify({ message: `"quoted" 'single' \\n` });
+    expect(quoteLiteral(payload)).toBe(
+      `E'{"message":"\\\\"quoted\\\\" ''single'' \\\\\\\\n"}'`
+    );
+  });
+
+  test("unicode and newlines", () => {
+    expect(quoteLiteral("grüße\n🦆")).toBe("'grüße\n🦆'");
+  });
+
+  test("null bytes", () => {
+    expect(() => quoteLiteral("a\0b")).toThrow();
+  });
+});
+
+describe("callProcedure", () => {
+  test("quotes every argument", () => {
+    expect(
+      callProcedure(
+        "quirrel.execute_job",
+        "https://example.com/api/it's",
+        "@cron"
+      )
+    ).toBe(
+      "call quirrel.execute_job('https://example.com/api/it''s', '@cron')"
+    );
+  });
+
+  test("rejects invalid procedure names", () => {
+    expect(() =>
+      callProcedure("pg_sleep(10); call quirrel.execute_job")
+    ).toThrow();
+    expect(() => callProcedure("quirrel.execute_job --")).toThrow();
+  });
+});
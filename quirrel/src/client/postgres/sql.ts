@@ -0,0 +1,32 @@
+/**
+ * Quotes a string for use as a literal in an SQL command.
+ * Behaves like Postgres' `quote_literal`, so the result is safe
+ * regardless of the `standard_conforming_strings` setting.
+ */
+export function quoteLiteral(value: string): string {
+  if (value.includes("\0")) {
+    throw new Error("SQL literals can't contain null bytes.");
+  }
+
+  const quoted = "'" + value.replace(/'/g, "''") + "'";
+
+  if (value.includes("\\")) {
+    return "E" + quoted.replace(/\\/g, "\\\\");
+  }
+
+  return quoted;
+}
+
+const qualifiedName = /^[a-z_][a-z0-9_]*(\.[a-z_][a-z0-9_]*)?$/;
+
+/**
+ * Builds a statement calling the procedure `procedureName` with the given arguments,
+ * e.g. to be used as a `cron.job.command`.
+ */
+export function callProcedure(procedureName: string, ...args: string[]) {
+  if (!qualifiedName.test(procedureName)) {
+    throw new Error(`Invalid procedure name: ${procedureName}`);
+  }
+
+  return `call ${procedureName}(${args.map(quoteLiteral).join(", ")})`;
+}
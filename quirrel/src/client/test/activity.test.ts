@@ -0,0 +1,100 @@
+import { Activity, QuirrelClient } from "..";
+import { run } from "../../api/test/runQuirrel";
+import delay from "delay";
+import {
+  describeWithPostgres,
+  getAddress,
+  makePostgresClient,
+  testWithPostgres,
+  tick,
+  usePostgresReceiver,
+  waitUntil,
+} from "./util";
+
+async function expectToReportUntilUnsubscribed(quirrel: QuirrelClient<string>) {
+  const activities: Activity[] = [];
+  const errors: Error[] = [];
+
+  const unsubscribe = await quirrel.onActivity(
+    (activity) => activities.push(activity),
+    (error) => errors.push(error)
+  );
+
+  await quirrel.enqueue("hello world", { id: "a", delay: "1h" });
+  await waitUntil(() => activities.length > 0, 1000);
+
+  expect(activities[0]).toMatchObject({
+    type: "scheduled",
+    payload: { id: "a" },
+  });
+
+  await unsubscribe();
+
+  await quirrel.delete("a");
+  await delay(100);
+
+  expect(activities).toHaveLength(1);
+  expect(errors).toEqual([]);
+}
+
+test("activity", async () => {
+  const server = await run("Mock");
+
+  const quirrel = new QuirrelClient<string>({
+    route: "activity",
+    async handler() {},
+    config: {
+      quirrelBaseUrl: getAddress(server.server),
+      applicationBaseUrl: "http://localhost",
+    },
+  });
+
+  await expectToReportUntilUnsubscribed(quirrel);
+
+  await server.teardown();
+});
+
+testWithPostgres("activity on Postgres", async () => {
+  const quirrel = makePostgresClient("activity");
+
+  await expectToReportUntilUnsubscribed(quirrel);
+});
+
+describeWithPostgres("activity of executions on Postgres", () => {
+  const activities: Activity[] = [];
+  let startedBeforeRequest = false;
+
+  const makeClient = usePostgresReceiver((req, res) => {
+    waitUntil(() => activities.some(({ type }) => type === "started"), 1000)
+      .then(
+        () => (startedBeforeRequest = true),
+        () => {}
+      )
+      .finally(() => res.end());
+  });
+
+  test("starts are published before the request is made", async () => {
+    const quirrel = makeClient("activity");
+
+    const unsubscribe = await quirrel.onActivity((activity) => {
+      if (activity.payload.id === "started") {
+        activities.push(activity);
+      }
+    });
+
+    await quirrel.enqueue("", { id: "started", delay: "1h" });
+    await quirrel.invoke("started");
+    await tick();
+    await delay(100);
+
+    await unsubscribe();
+
+    expect(startedBeforeRequest).toBe(true);
+    expect(activities.map(({ type }) => type)).toEqual([
+      "scheduled",
+      "invoked",
+      "started",
+      "completed",
+    ]);
+  });
+});
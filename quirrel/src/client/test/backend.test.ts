@@ -0,0 +1,288 @@
+import { QuirrelClient, QuirrelBackend } from "..";
+import type { FailedJobDTO, JobDTO } from "../job";
+import { makePostgresClient, testWithPostgres } from "./util";
+
+function inMemoryBackend(): QuirrelBackend & {
+  jobs: JobDTO[];
+  failed: FailedJobDTO[];
+} {
+  const jobs: JobDTO[] = [];
+  const failed: FailedJobDTO[] = [];
+
+  const find = (endpoint: string, id: string | number) =>
+    jobs.findIndex((job) => job.endpoint === endpoint && job.id === String(id));
+
+  const setPaused = (
+    endpoint: string,
+    id: string | number,
+    paused: boolean
+  ) => {
+    const index = find(endpoint, id);
+    if (index === -1) {
+      return false;
+    }
+
+    jobs[index] = { ...jobs[index], paused };
+    return true;
+  };
+
+  const findFailed = (endpoint: string, id: string | number) =>
+    failed.findIndex(
+      (job) => job.endpoint === endpoint && job.id === String(id)
+    );
+
+  return {
+    jobs,
+    failed,
+    async enqueue(endpoint, newJobs) {
+      return newJobs.map((newJob, index) => {
+        const job: JobDTO = {
+          id: String(newJob.id ?? index),
+          endpoint,
+          body: newJob.body,
+          runAt: new Date(Date.now() + (newJob.delay ?? 0)).toISOString(),
+          count: 1,
+          repeat: newJob.repeat as JobDTO["repeat"],
+        };
+        jobs.push(job);
+        return job;
+      });
+    },
+    async *get(endpoint) {
+      yield jobs.filter((job) => job.endpoint === endpoint);
+    },
+    async getById(endpoint, id) {
+      return jobs[find(endpoint, id)] ?? null;
+    },
+    async invoke(endpoint, id) {
+      return find(endpoint, id) !== -1;
+    },
+    async delete(endpoint, id) {
+      const index = find(endpoint, id);
+      if (index === -1) {
+        return false;
+      }
+
+      jobs.splice(index, 1);
+      return true;
+    },
+    async pause(endpoint, id) {
+      return setPaused(endpoint, id, true);
+    },
+    async resume(endpoint, id) {
+      return setPaused(endpoint, id, false);
+    },
+    async getRuns() {
+      return [];
+    },
+    async getFailed(endpoint) {
+      return failed.filter((job) => job.endpoint === endpoint);
+    },
+    async retryFailed(endpoint, id) {
+      const index = findFailed(endpoint, id);
+      if (index === -1) {
+        return null;
+      }
+
+      const [{ body, exclusive, retry }] = failed.splice(index, 1);
+      const job: JobDTO = {
+        id: String(id),
+        endpoint,
+        body,
+        exclusive,
+        retry,
+        runAt: new Date().toISOString(),
+        count: 1,
+      };
+      jobs.push(job);
+      return job;
+    },
+    async discardFailed(endpoint, id) {
+      const index = findFailed(endpoint, id);
+      if (index === -1) {
+        return false;
+      }
+
+      failed.splice(index, 1);
+      return true;
+    },
+    async getAllCronJobs() {
+      return [];
+    },
+    async getQueuedEndpoints({ withCounts }) {
+      const endpoints = [...new Set(jobs.map((job) => job.endpoint))];
+
+      return endpoints.map((endpoint) => ({
+        endpoint,
+        jobs: withCounts
+          ? jobs.filter((job) => job.endpoint === endpoint).length
+          : undefined,
+      }));
+    },
+    async deleteAll() {
+      return jobs.splice(0).length;
+    },
+    async onActivity() {
+      return async () => {};
+    },
+    beforeExit() {},
+  };
+}
+
+test("custom backend", async () => {
+  const backend = inMemoryBackend();
+
+  const quirrel = new QuirrelClient<{ greeting: string }>({
+    route: "greetings",
+    async handler() {},
+    config: {
+      backend,
+      encryptionSecret: "4ws8syoOgeQX6WFvXuUneGNwy7QvLxpk",
+      applicationBaseUrl: "https://example.com",
+    },
+  });
+
+  const job = await quirrel.enqueue(
+    { greeting: "hello world" },
+    { id: "greeting", delay: "10s" }
+  );
+
+  expect(job.endpoint).toBe("https://example.com/greetings");
+  expect(job.body).toEqual({ greeting: "hello world" });
+  expect(backend.jobs[0].body).not.toContain("hello world");
+
+  const fetchedJob = await quirrel.getById("greeting");
+  expect(fetchedJob?.body).toEqual({ greeting: "hello world" });
+
+  expect(await quirrel.getQueuedEndpoints()).toEqual([
+    "https://example.com/greetings",
+  ]);
+  expect(await quirrel.getQueuedEndpoints({ withCounts: true })).toEqual([
+    { endpoint: "https://example.com/greetings", jobs: 1 },
+  ]);
+
+  expect(await job.delete()).toBe(true);
+  expect(await quirrel.getById("greeting")).toBeNull();
+});
+
+testWithPostgres("Postgres backend", async () => {
+  const quirrel = makePostgresClient<{ greeting: string }>("greetings", {
+    applicationBaseUrl: "https://example.com",
+    encryptionSecret: "4ws8syoOgeQX6WFvXuUneGNwy7QvLxpk",
+  });
+
+  const job = await quirrel.enqueue(
+    { greeting: "hello world" },
+    { id: "greeting", delay: "10s" }
+  );
+
+  expect(job.endpoint).toBe("https://example.com/greetings");
+  expect(job.body).toEqual({ greeting: "hello world" });
+
+  const fetchedJob = await quirrel.getById("greeting");
+  expect(fetchedJob?.body).toEqual({ greeting: "hello world" });
+
+  const ids: string[] = [];
+  for await (const jobs of quirrel.get()) {
+    ids.push(...jobs.map((job) => String(job.id)));
+  }
+  expect(ids).toContain("greeting");
+
+  expect(await job.delete()).toBe(true);
+  expect(await quirrel.getById("greeting")).toBeNull();
+});
+
+testWithPostgres("existing jobs are kept unless overridden", async () => {
+  const quirrel = makePostgresClient("override", {
+    applicationBaseUrl: "https://example.com",
+  });
+
+  const original = await quirrel.enqueue("original", {
+    id: "a",
+    delay: "1h",
+  });
+
+  const kept = await quirrel.enqueue("replacement", { id: "a", delay: "2h" });
+  expect(kept.body).toEqual("original");
+  expect(kept.runAt).toEqual(original.runAt);
+  expect((await quirrel.getById("a"))?.body).toEqual("original");
+
+  const [keptInBatch] = await quirrel.enqueueMany([
+    { payload: "replacement", options: { id: "a" } },
+  ]);
+  expect(keptInBatch.body).toEqual("original");
+
+  const overridden = await quirrel.enqueue("replacement", {
+    id: "a",
+    delay: "2h",
+    override: true,
+  });
+  expect(overridden.body).toEqual("replacement");
+  expect(+overridden.runAt!).toBeGreaterThan(+original.runAt!);
+  expect((await quirrel.getById("a"))?.body).toEqual("replacement");
+
+  await quirrel.delete("a");
+});
+
+test("occurrences", async () => {
+  const quirrel = new QuirrelClient<null>({
+    route: "reminders",
+    async handler() {},
+    config: {
+      backend: inMemoryBackend(),
+      applicationBaseUrl: "https://example.com",
+    },
+  });
+
+  const job = await quirrel.enqueue(null, {
+    id: "reminder",
+    repeat: { every: "1h", times: 3 },
+  });
+
+  const fetchedJob = await quirrel.getById("reminder", { occurrences: 5 });
+
+  expect(fetchedJob?.occurrences).toEqual([
+    job.runAt,
+    new Date(+job.runAt! + 60 * 60 * 1000),
+    new Date(+job.runAt! + 2 * 60 * 60 * 1000),
+  ]);
+});
+
+test("failed jobs are decrypted and decoded", async () => {
+  const backend = inMemoryBackend();
+
+  const quirrel = new QuirrelClient<{ to: string }>({
+    route: "emails",
+    async handler() {},
+    config: {
+      backend,
+      encryptionSecret: "4ws8syoOgeQX6WFvXuUneGNwy7QvLxpk",
+      applicationBaseUrl: "https://example.com",
+    },
+  });
+
+  await quirrel.enqueue({ to: "jane@example.com" }, { id: "welcome" });
+
+  // fails for good
+  const { id, endpoint, body } = backend.jobs.pop()!;
+  expect(body).not.toContain("jane@example.com");
+  backend.failed.push({
+    id,
+    endpoint,
+    body,
+    attempts: 3,
+    responseStatus: 500,
+    responseBody: "Internal Server Error",
+    failedAt: "2021-05-01T10:00:00.000Z",
+  });
+
+  const [failedJob] = await quirrel.getFailed();
+  expect(failedJob.body).toEqual({ to: "jane@example.com" });
+  expect(failedJob.failedAt).toEqual(new Date("2021-05-01T10:00:00.000Z"));
+  expect(failedJob.responseBody).toEqual("Internal Server Error");
+
+  const retriedJob = await quirrel.retryFailed("welcome");
+  expect(retriedJob?.body).toEqual({ to: "jane@example.com" });
+  expect(retriedJob?.runAt).toBeInstanceOf(Date);
+  expect(backend.jobs[0].body).toEqual(body);
+});
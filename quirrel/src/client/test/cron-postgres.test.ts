@@ -0,0 +1,104 @@
+import { Client } from "pg";
+import { cron } from "../../shared/cron";
+import { databaseUrl, describeWithPostgres, makePostgresClient } from "./util";
+
+describeWithPostgres("cron jobs on Postgres", () => {
+  const db = new Client({ connectionString: databaseUrl });
+
+  beforeAll(async () => {
+    await db.connect();
+  });
+
+  afterAll(async () => {
+    await db.end();
+  });
+
+  test("runAt and occurrences follow the schedule", async () => {
+    const quirrel = makePostgresClient("occurrences");
+
+    const job = await quirrel.enqueue("", {
+      id: "daily",
+      repeat: { cron: "0 9 * * *" },
+    });
+
+    const first = cron(new Date(), "0 9 * * *");
+    const second = cron(first, "0 9 * * *");
+    const third = cron(second, "0 9 * * *");
+
+    expect(job.runAt).toEqual(first);
+
+    const fetchedJob = await quirrel.getById("daily", { occurrences: 3 });
+    expect(fetchedJob?.runAt).toEqual(first);
+    expect(fetchedJob?.occurrences).toEqual([first, second, third]);
+
+    for await (const jobs of quirrel.get({ occurrences: 2 })) {
+      for (const { runAt, occurrences } of jobs) {
+        expect(runAt).toEqual(first);
+        expect(occurrences).toEqual([first, second]);
+      }
+    }
+
+    await quirrel.delete("daily");
+  });
+
+  test("names of long routes fit into pg_cron", async () => {
+    const route = "überlange-route/".repeat(8);
+
+    const quirrel = makePostgresClient(route);
+
+    await quirrel.enqueue("", { id: "ünïcödé", repeat: { cron: "0 9 * * *" } });
+
+    const {
+      rows: [{ jobname }],
+    } = await db.query(
+      `
+      select cron.job.jobname
+      from quirrel.jobs
+      join cron.job on cron.job.jobid = jobs.cron_jobid
+      where jobs.id = 'ünïcödé' and jobs.endpoint like '%überlange-route%'
+      `
+    );
+
+    expect(Buffer.byteLength(jobname)).toBeLessThanOrEqual(63);
+    expect(jobname).toMatch(/^cron-job:überlange-route\/.*:[0-9a-f]{16}$/);
+
+    await quirrel.delete("ünïcödé");
+  });
+
+  test("long routes sharing a prefix don't collide", async () => {
+    const prefix = "a-very-long-route-name/".repeat(4);
+    const first = makePostgresClient(prefix + "first");
+    const second = makePostgresClient(prefix + "second");
+
+    await first.enqueue("first", {
+      id: "@cron",
+      repeat: { cron: "0 9 * * *" },
+    });
+    await second.enqueue("second", {
+      id: "@cron",
+      repeat: { cron: "0 10 * * *" },
+    });
+
+    const { rows } = await db.query(
+      `
+      select cron.job.jobname, cron.job.schedule
+      from quirrel.jobs
+      join cron.job on cron.job.jobid = jobs.cron_jobid
+      where jobs.endpoint like '%a-very-long-route-name%'
+      `
+    );
+
+    expect(rows).toHaveLength(2);
+    expect(rows[0].jobname).not.toEqual(rows[1].jobname);
+    expect(rows.map(({ schedule }) => schedule).sort()).toEqual([
+      "0 10 * * *",
+      "0 9 * * *",
+    ]);
+
+    expect((await first.getById("@cron"))?.body).toEqual("first");
+    expect((await second.getById("@cron"))?.body).toEqual("second");
+
+    await first.delete("@cron");
+    await second.delete("@cron");
+  });
+});
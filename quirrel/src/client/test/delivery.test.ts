@@ -0,0 +1,65 @@
+import { QuirrelClient, JobMeta } from "..";
+import { verify } from "secure-webhooks";
+import { describeWithPostgres, tick, usePostgresReceiver } from "./util";
+
+describeWithPostgres("delivery", () => {
+  const token = "delivery-token";
+
+  const handled: { payload: unknown; meta: JobMeta }[] = [];
+  const signed: boolean[] = [];
+
+  let quirrel: QuirrelClient<{ greeting: string; date: Date }>;
+
+  const makeClient = usePostgresReceiver((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", async () => {
+      signed.push(
+        verify(body, token, req.headers["x-quirrel-signature"] as string)
+      );
+
+      const { status } = await quirrel.respondTo(body, req.headers);
+      res.statusCode = status;
+      res.end();
+    });
+  });
+
+  beforeAll(() => {
+    quirrel = makeClient("delivery", {
+      async handler(payload, meta) {
+        handled.push({ payload, meta });
+      },
+      encryptionSecret: "4ws8syoOgeQX6WFvXuUneGNwy7QvLxpk",
+      token,
+    });
+  });
+
+  test("payload and meta reach the handler", async () => {
+    const date = new Date("2021-05-01T10:00:00.000Z");
+
+    await quirrel.enqueue(
+      { greeting: "hello world", date },
+      { id: "cron", repeat: { cron: "0 9 * * *" }, exclusive: true }
+    );
+
+    await quirrel.invoke("cron");
+
+    await tick();
+
+    expect(signed).toEqual([true]);
+    expect(handled).toEqual([
+      {
+        payload: { greeting: "hello world", date },
+        meta: {
+          id: "cron",
+          count: 1,
+          retry: undefined,
+          exclusive: true,
+          nextRepetition: expect.any(String),
+        },
+      },
+    ]);
+
+    await quirrel.delete("cron");
+  });
+});
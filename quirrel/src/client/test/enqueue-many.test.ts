@@ -0,0 +1,34 @@
+import { describeWithPostgres, makePostgresClient } from "./util";
+
+describeWithPostgres("enqueueMany", () => {
+  const quirrel = makePostgresClient("enqueue-many");
+
+  test("stores all jobs of a batch", async () => {
+    const jobs = await quirrel.enqueueMany([
+      { payload: "a", options: { id: "a", delay: "1h" } },
+      { payload: "b", options: { id: "b", repeat: { every: "1h" } } },
+      { payload: "c", options: { id: "c", repeat: { cron: "0 9 * * *" } } },
+    ]);
+
+    expect(jobs.map((job) => job.id).sort()).toEqual(["a", "b", "c"]);
+
+    for (const id of ["a", "b", "c"]) {
+      expect((await quirrel.getById(id))?.body).toEqual(id);
+      await quirrel.delete(id);
+    }
+  });
+
+  test("stores nothing if one job of a batch fails", async () => {
+    // one statement can't write the same job twice
+    await expect(
+      quirrel.enqueueMany([
+        { payload: "c", options: { id: "c", repeat: { cron: "0 9 * * *" } } },
+        { payload: "a", options: { id: "a", delay: "1h" } },
+        { payload: "a", options: { id: "a", delay: "2h" } },
+      ])
+    ).rejects.toThrow();
+
+    expect(await quirrel.getById("a")).toBeNull();
+    expect(await quirrel.getById("c")).toBeNull();
+  });
+});
@@ -0,0 +1,69 @@
+import { describeWithPostgres, tick, usePostgresReceiver } from "./util";
+
+describeWithPostgres("exclusive", () => {
+  let running = 0;
+  let maxRunning = 0;
+
+  const makeReceivingClient = usePostgresReceiver((req, res) => {
+    running++;
+    maxRunning = Math.max(maxRunning, running);
+
+    setTimeout(() => {
+      running--;
+      res.end();
+    }, 200);
+  });
+
+  function makeClient(route: string, exclusive: boolean) {
+    return makeReceivingClient(route, { defaultJobOptions: { exclusive } });
+  }
+
+  afterEach(() => {
+    running = 0;
+    maxRunning = 0;
+  });
+
+  test("exclusive jobs of one queue don't overlap", async () => {
+    const quirrel = makeClient("exclusive", true);
+
+    await quirrel.enqueueMany([
+      { payload: "a", options: { id: "a", delay: "1h" } },
+      { payload: "b", options: { id: "b", delay: "1h" } },
+    ]);
+
+    await quirrel.invoke("a");
+    await quirrel.invoke("b");
+    await Promise.all([tick(), tick()]);
+
+    expect(maxRunning).toBe(1);
+  });
+
+  test("exclusive jobs wait for running jobs of their queue", async () => {
+    const concurrent = makeClient("mixed", false);
+    const exclusive = makeClient("mixed", true);
+
+    await concurrent.enqueue("a", { id: "a", delay: "1h" });
+    await exclusive.enqueue("b", { id: "b", delay: "1h" });
+
+    await concurrent.invoke("a");
+    await exclusive.invoke("b");
+    await Promise.all([tick(), tick()]);
+
+    expect(maxRunning).toBe(1);
+  });
+
+  test("other jobs run side by side", async () => {
+    const quirrel = makeClient("concurrent", false);
+
+    await quirrel.enqueueMany([
+      { payload: "a", options: { id: "a", delay: "1h" } },
+      { payload: "b", options: { id: "b", delay: "1h" } },
+    ]);
+
+    await quirrel.invoke("a");
+    await quirrel.invoke("b");
+    await Promise.all([tick(), tick()]);
+
+    expect(maxRunning).toBe(2);
+  });
+});
@@ -0,0 +1,90 @@
+import { Client } from "pg";
+import {
+  databaseUrl,
+  describeWithPostgres,
+  tick,
+  usePostgresReceiver,
+} from "./util";
+
+describeWithPostgres("failed jobs", () => {
+  let status = 500;
+  let received = 0;
+
+  const makeClient = usePostgresReceiver((req, res) => {
+    received++;
+    res.statusCode = status;
+    res.end("Something broke!");
+  });
+
+  const db = new Client({ connectionString: databaseUrl });
+
+  beforeAll(async () => {
+    await db.connect();
+  });
+
+  afterEach(() => {
+    status = 500;
+    received = 0;
+  });
+
+  afterAll(async () => {
+    await db.end();
+  });
+
+  test("are kept once retries are exhausted", async () => {
+    const quirrel = makeClient("failed");
+
+    await quirrel.enqueue("hello world", { id: "a", delay: "1h" });
+    await quirrel.invoke("a");
+    await tick();
+
+    expect(await quirrel.getById("a")).toBeNull();
+    expect(await quirrel.getFailed()).toEqual([
+      expect.objectContaining({
+        id: "a",
+        body: "hello world",
+        attempts: 1,
+        responseStatus: 500,
+        responseBody: "Something broke!",
+      }),
+    ]);
+
+    expect(await quirrel.discardFailed("a")).toBe(true);
+    expect(await quirrel.discardFailed("a")).toBe(false);
+    expect(await quirrel.getFailed()).toEqual([]);
+  });
+
+  test("can be retried", async () => {
+    const quirrel = makeClient("failed");
+
+    await quirrel.enqueue("hello world", { id: "a", delay: "1h" });
+    await quirrel.invoke("a");
+    await tick();
+
+    status = 200;
+
+    const retried = await quirrel.retryFailed("a");
+    expect(retried?.body).toEqual("hello world");
+    expect(await quirrel.getFailed()).toEqual([]);
+    expect(await quirrel.retryFailed("a")).toBeNull();
+
+    await db.query(`call quirrel.tick()`);
+
+    expect(received).toBe(2);
+    expect(await quirrel.getById("a")).toBeNull();
+    expect(await quirrel.getFailed()).toEqual([]);
+  });
+
+  test("aren't kept while they repeat", async () => {
+    const quirrel = makeClient("failed");
+
+    await quirrel.enqueue("", { id: "a", repeat: { every: "1h", times: 2 } });
+    await quirrel.invoke("a");
+    await tick();
+
+    expect(await quirrel.getById("a")).not.toBeNull();
+    expect(await quirrel.getFailed()).toEqual([]);
+
+    await quirrel.delete("a");
+  });
+});
@@ -1,6 +1,6 @@
 import { Job, QuirrelClient } from "..";
 import { run } from "../../api/test/runQuirrel";
-import { getAddress } from "./util";
+import { getAddress, makePostgresClient, testWithPostgres } from "./util";
 
 test("getAll", async () => {
   const server = await run("Mock");
@@ -49,3 +49,41 @@ test("getAll", async () => {
 
   server.teardown();
 });
+
+test("pageSize must be a positive integer", async () => {
+  const quirrel = new QuirrelClient({
+    route: "",
+    async handler() {},
+    config: {
+      quirrelBaseUrl: "http://localhost:1",
+      applicationBaseUrl: "http://localhost",
+    },
+  });
+
+  for (const pageSize of [0, -1, 1.5]) {
+    await expect(quirrel.get({ pageSize }).next()).rejects.toThrow(
+      "pageSize must be"
+    );
+  }
+});
+
+testWithPostgres("getAll pages through jobs on Postgres", async () => {
+  const quirrel = makePostgresClient("paginated");
+
+  const ids = ["a", "b", "c", "d", "e"];
+
+  await quirrel.enqueueMany(
+    ids.map((id) => ({ payload: id, options: { id, delay: "1h" } }))
+  );
+
+  const pages: string[][] = [];
+  for await (const jobs of quirrel.get({ pageSize: 2 })) {
+    pages.push(jobs.map((job) => String(job.id)));
+  }
+
+  expect(pages).toEqual([["a", "b"], ["c", "d"], ["e"]]);
+
+  for (const id of ids) {
+    await quirrel.delete(id);
+  }
+});
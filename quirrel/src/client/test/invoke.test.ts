@@ -0,0 +1,63 @@
+import { describeWithPostgres, tick, usePostgresReceiver } from "./util";
+
+describeWithPostgres("invoke", () => {
+  const received: string[] = [];
+
+  const makeClient = usePostgresReceiver((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      received.push(body);
+      res.end();
+    });
+  });
+
+  afterEach(() => {
+    received.length = 0;
+  });
+
+  test("executes a delayed job with the next tick", async () => {
+    const quirrel = makeClient("invoke");
+
+    await quirrel.enqueue("hello", { id: "delayed", delay: "1h" });
+
+    expect(await quirrel.invoke("delayed")).toBe(true);
+    expect(received).toHaveLength(0);
+
+    await tick();
+    expect(received).toHaveLength(1);
+    expect(await quirrel.getById("delayed")).toBeNull();
+
+    // runs outlive their job
+    const [run] = await quirrel.getRuns("delayed");
+    expect(run.succeeded).toBe(true);
+  });
+
+  test("keeps the schedule of cron jobs", async () => {
+    const quirrel = makeClient("invoke");
+
+    const job = await quirrel.enqueue("hello", {
+      id: "cron",
+      repeat: { cron: "0 9 * * *" },
+    });
+
+    expect(await quirrel.invoke("cron")).toBe(true);
+
+    await tick();
+    expect(received).toHaveLength(1);
+    expect((await quirrel.getById("cron"))?.runAt).toEqual(job.runAt);
+
+    const [run] = await quirrel.getRuns("cron");
+    expect(run.succeeded).toBe(true);
+    expect(run.responseStatus).toBe(200);
+
+    await quirrel.delete("cron");
+  });
+
+  test("returns false for unknown jobs", async () => {
+    const quirrel = makeClient("invoke");
+
+    expect(await quirrel.invoke("unknown")).toBe(false);
+    expect(received).toHaveLength(0);
+  });
+});
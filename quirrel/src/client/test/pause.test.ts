@@ -0,0 +1,120 @@
+import { Client } from "pg";
+import { databaseUrl, describeWithPostgres, usePostgresReceiver } from "./util";
+
+describeWithPostgres("pause", () => {
+  let received = 0;
+
+  const makeClient = usePostgresReceiver((req, res) => {
+    received++;
+    res.end();
+  });
+
+  const db = new Client({ connectionString: databaseUrl });
+
+  async function isCronJobActive(id: string) {
+    const {
+      rows: [{ active }],
+    } = await db.query(
+      `
+      select cron.job.active
+      from quirrel.jobs
+      join cron.job on cron.job.jobid = jobs.cron_jobid
+      where jobs.endpoint like '%/pause' and jobs.id = $1
+      `,
+      [id]
+    );
+
+    return active;
+  }
+
+  beforeAll(async () => {
+    await db.connect();
+  });
+
+  afterEach(() => {
+    received = 0;
+  });
+
+  afterAll(async () => {
+    await db.end();
+  });
+
+  test("paused cron jobs are deactivated in pg_cron", async () => {
+    const quirrel = makeClient("pause");
+
+    await quirrel.enqueue("", { id: "cron", repeat: { cron: "0 9 * * *" } });
+
+    expect(await quirrel.pause("cron")).toBe(true);
+    expect((await quirrel.getById("cron"))?.paused).toBe(true);
+    expect(await isCronJobActive("cron")).toBe(false);
+
+    // stays paused when it's replaced
+    await quirrel.enqueue("", {
+      id: "cron",
+      repeat: { cron: "0 10 * * *" },
+      override: true,
+    });
+    expect((await quirrel.getById("cron"))?.paused).toBe(true);
+    expect(await isCronJobActive("cron")).toBe(false);
+
+    expect(await quirrel.resume("cron")).toBe(true);
+    expect((await quirrel.getById("cron"))?.paused).toBe(false);
+    expect(await isCronJobActive("cron")).toBe(true);
+
+    await quirrel.delete("cron");
+  });
+
+  test("paused jobs are skipped by the tick", async () => {
+    const quirrel = makeClient("pause");
+
+    await quirrel.enqueue("", { id: "due", delay: "1h" });
+    await quirrel.pause("due");
+
+    await db.query(
+      `update quirrel.jobs set run_at = now() - interval '1 minute' where endpoint like '%/pause' and id = 'due'`
+    );
+
+    await db.query(`call quirrel.tick()`);
+    expect(received).toBe(0);
+    expect(await quirrel.getById("due")).not.toBeNull();
+
+    await quirrel.resume("due");
+
+    await db.query(`call quirrel.tick()`);
+    expect(received).toBe(1);
+    expect(await quirrel.getById("due")).toBeNull();
+  });
+
+  test("missed repetitions are executed once on resume", async () => {
+    const quirrel = makeClient("pause");
+
+    await quirrel.enqueue("", {
+      id: "every",
+      delay: "1h",
+      repeat: { every: "1h" },
+    });
+    await quirrel.pause("every");
+
+    await db.query(
+      `update quirrel.jobs set run_at = now() - interval '3 hours 1 minute' where endpoint like '%/pause' and id = 'every'`
+    );
+
+    await quirrel.resume("every");
+
+    await db.query(`call quirrel.tick()`);
+    await db.query(`call quirrel.tick()`);
+    expect(received).toBe(1);
+
+    const job = await quirrel.getById("every");
+    expect(+job!.runAt!).toBeGreaterThan(Date.now());
+
+    await quirrel.delete("every");
+  });
+
+  test("unknown jobs can't be paused", async () => {
+    const quirrel = makeClient("pause");
+
+    expect(await quirrel.pause("unknown")).toBe(false);
+    expect(await quirrel.resume("unknown")).toBe(false);
+  });
+});
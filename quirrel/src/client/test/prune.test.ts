@@ -0,0 +1,76 @@
+import { PrismaClient } from "@prisma/client";
+import { prune } from "../postgres/retention";
+import {
+  databaseUrl,
+  describeWithPostgres,
+  tick,
+  usePostgresReceiver,
+} from "./util";
+
+describeWithPostgres("prune", () => {
+  const makeClient = usePostgresReceiver((req, res) => {
+    res.end();
+  });
+
+  const prisma = new PrismaClient({
+    datasources: { db: { url: databaseUrl } },
+  });
+
+  // runs outlive their jobs, so earlier test runs don't count
+  const id = "cron-" + Date.now();
+
+  async function countRuns() {
+    const [{ runs }]: { runs: number }[] = await prisma.$queryRaw`
+      select count(*)::integer as runs
+      from quirrel.job_runs
+      where endpoint like '%/prune' and id = ${id}
+    `;
+
+    return runs;
+  }
+
+  afterAll(async () => {
+    await prune(prisma, {
+      maxAge: 7 * 24 * 60 * 60 * 1000,
+      maxRunsPerJob: null,
+    });
+    await prisma.$disconnect();
+  });
+
+  test("keeps the most recent runs of every job", async () => {
+    const quirrel = makeClient("prune");
+
+    await quirrel.enqueue("", { id, repeat: { cron: "0 0 1 1 *" } });
+    await quirrel.invoke(id);
+    await tick();
+    await quirrel.invoke(id);
+    await tick();
+
+    // scheduled anew, under another pg_cron job
+    await quirrel.delete(id);
+    await quirrel.enqueue("", { id, repeat: { cron: "0 0 1 1 *" } });
+    await quirrel.invoke(id);
+    await tick();
+
+    expect(await countRuns()).toBe(3);
+
+    await prune(prisma, { maxRunsPerJob: 2 });
+
+    expect(await countRuns()).toBe(2);
+    expect(await quirrel.getRuns(id)).toHaveLength(2);
+
+    await quirrel.delete(id);
+  });
+
+  test("limits can be removed", async () => {
+    await prune(prisma, { maxAge: null, maxRunsPerJob: null });
+
+    const [retention]: {
+      max_age: string | null;
+      max_runs_per_job: number | null;
+    }[] = await prisma.$queryRaw`select * from quirrel.retention`;
+
+    expect(retention.max_age).toBeNull();
+    expect(retention.max_runs_per_job).toBeNull();
+  });
+});
@@ -0,0 +1,51 @@
+import { describeWithPostgres, tick, usePostgresReceiver } from "./util";
+
+describeWithPostgres("getQueuedEndpoints", () => {
+  const makeReceivingClient = usePostgresReceiver((req, res) => {
+    res.end();
+  });
+
+  // runs are listed for a day, so earlier test runs use other routes
+  const suffix = Date.now();
+
+  function makeClient(route: string) {
+    return makeReceivingClient(`${route}-${suffix}`);
+  }
+
+  test("lists endpoints with jobs or recent runs", async () => {
+    const emails = makeClient("emails");
+    const digest = makeClient("digest");
+
+    const [{ endpoint: emailsEndpoint }] = await emails.enqueueMany([
+      { payload: "a", options: { id: "a", delay: "1h" } },
+      { payload: "b", options: { id: "b", delay: "1h" } },
+    ]);
+
+    const { endpoint: digestEndpoint } = await digest.enqueue("", {
+      id: "cron",
+      repeat: { cron: "0 9 * * *" },
+    });
+    await digest.invoke("cron");
+    await tick();
+    await digest.delete("cron");
+
+    const endpoints = await emails.getQueuedEndpoints();
+    expect(endpoints).toContain(emailsEndpoint);
+    expect(endpoints).toContain(digestEndpoint);
+
+    const counts = await emails.getQueuedEndpoints({ withCounts: true });
+    expect(counts).toContainEqual({
+      endpoint: emailsEndpoint,
+      jobs: 2,
+      recentRuns: 0,
+    });
+    expect(counts).toContainEqual({
+      endpoint: digestEndpoint,
+      jobs: 0,
+      recentRuns: 1,
+    });
+
+    await emails.delete("a");
+    await emails.delete("b");
+  });
+});
@@ -0,0 +1,130 @@
+import { Client } from "pg";
+import {
+  databaseUrl,
+  describeWithPostgres,
+  tick,
+  usePostgresReceiver,
+} from "./util";
+
+describeWithPostgres("repeat", () => {
+  let received = 0;
+
+  const makeClient = usePostgresReceiver((req, res) => {
+    received++;
+    res.end();
+  });
+
+  const db = new Client({ connectionString: databaseUrl });
+
+  /**
+   * Makes a job due and lets the tick execute it.
+   * @param overdue Postgres interval the job is overdue by.
+   * @returns the time it was due at.
+   */
+  async function executeDue(id: string, overdue = "1 minute"): Promise<Date> {
+    const {
+      rows: [{ run_at }],
+    } = await db.query(
+      `
+      update quirrel.jobs set run_at = date_trunc('second', now()) - $2::interval
+      where endpoint like '%/repeat' and id = $1
+      returning run_at
+      `,
+      [id, overdue]
+    );
+
+    await db.query(`call quirrel.tick()`);
+
+    return run_at;
+  }
+
+  beforeAll(async () => {
+    await db.connect();
+  });
+
+  afterEach(() => {
+    received = 0;
+  });
+
+  afterAll(async () => {
+    await db.end();
+  });
+
+  test("every: rescheduled relative to the scheduled execution", async () => {
+    const quirrel = makeClient("repeat");
+
+    await quirrel.enqueue("", {
+      id: "every",
+      delay: "1h",
+      repeat: { every: "1h" },
+    });
+
+    const dueAt = await executeDue("every");
+
+    expect(received).toBe(1);
+
+    const job = await quirrel.getById("every");
+    expect(job?.count).toBe(2);
+    expect(job?.runAt).toEqual(new Date(+dueAt + 60 * 60 * 1000));
+
+    await quirrel.delete("every");
+  });
+
+  test("every: missed repetitions are skipped", async () => {
+    const quirrel = makeClient("repeat");
+
+    await quirrel.enqueue("", {
+      id: "overdue",
+      delay: "1h",
+      repeat: { every: "1h" },
+    });
+
+    const dueAt = await executeDue("overdue", "3 hours 1 minute");
+
+    expect(received).toBe(1);
+
+    const job = await quirrel.getById("overdue");
+    expect(job?.count).toBe(2);
+    expect(job?.runAt).toEqual(new Date(+dueAt + 4 * 60 * 60 * 1000));
+
+    await quirrel.delete("overdue");
+  });
+
+  test("times: stops after the given number of executions", async () => {
+    const quirrel = makeClient("repeat");
+
+    await quirrel.enqueue("", {
+      id: "twice",
+      delay: "1h",
+      repeat: { every: "1h", times: 2 },
+    });
+
+    await executeDue("twice");
+    expect((await quirrel.getById("twice"))?.count).toBe(2);
+
+    await executeDue("twice");
+    expect(received).toBe(2);
+    expect(await quirrel.getById("twice")).toBeNull();
+  });
+
+  test("times: stops cron jobs, too", async () => {
+    const quirrel = makeClient("repeat");
+
+    await quirrel.enqueue("", {
+      id: "once",
+      repeat: { cron: "0 9 * * *", times: 1 },
+    });
+
+    await quirrel.invoke("once");
+
+    await tick();
+
+    expect(received).toBe(1);
+    expect(await quirrel.getById("once")).toBeNull();
+
+    const { rows } = await db.query(
+      `select 1 from cron.job where jobname like 'cron-job:repeat:once:%'`
+    );
+    expect(rows).toHaveLength(0);
+  });
+});
@@ -0,0 +1,76 @@
+import { describeWithPostgres, tick, usePostgresReceiver } from "./util";
+
+describeWithPostgres("retry on Postgres", () => {
+  let statuses: number[] = [];
+
+  const makeReceivingClient = usePostgresReceiver((req, res) => {
+    res.statusCode = statuses.shift() ?? 200;
+    res.end();
+  });
+
+  function makeClient(route: string, retry: string[]) {
+    return makeReceivingClient(route, { defaultJobOptions: { retry } });
+  }
+
+  test("failed jobs are retried along their intervals", async () => {
+    const quirrel = makeClient("retry", ["1min", "3min"]);
+    statuses = [500, 500, 500];
+
+    const { runAt } = await quirrel.enqueue("", { id: "a", delay: "1h" });
+
+    await quirrel.invoke("a");
+
+    await tick();
+    expect((await quirrel.getById("a"))?.runAt).toEqual(
+      new Date(+runAt! + 60 * 1000)
+    );
+
+    await quirrel.invoke("a");
+
+    await tick();
+    expect((await quirrel.getById("a"))?.runAt).toEqual(
+      new Date(+runAt! + 3 * 60 * 1000)
+    );
+
+    await quirrel.invoke("a");
+
+    await tick();
+    expect(await quirrel.getById("a")).toBeNull();
+
+    const [failed] = await quirrel.getFailed();
+    expect(failed.id).toEqual("a");
+    expect(failed.attempts).toEqual(3);
+
+    await quirrel.discardFailed("a");
+  });
+
+  test("retries start over with every repetition", async () => {
+    const quirrel = makeClient("retry-repeat", ["1min"]);
+    statuses = [500, 200, 500];
+
+    const { runAt } = await quirrel.enqueue("", {
+      id: "a",
+      repeat: { every: "1h", times: 5 },
+    });
+
+    await quirrel.invoke("a");
+
+    await tick();
+    const retried = await quirrel.getById("a");
+    expect(retried?.runAt).toEqual(new Date(+runAt! + 60 * 1000));
+
+    // invoked early, so the job keeps its schedule
+    await quirrel.invoke("a");
+    await tick();
+    expect((await quirrel.getById("a"))?.runAt).toEqual(retried?.runAt);
+
+    await quirrel.invoke("a");
+
+    await tick();
+    expect((await quirrel.getById("a"))?.runAt).toEqual(
+      new Date(+runAt! + 2 * 60 * 1000)
+    );
+
+    await quirrel.delete("a");
+  });
+});
@@ -0,0 +1,120 @@
+import { Client } from "pg";
+import { cron } from "../../shared/cron";
+import {
+  databaseUrl,
+  describeWithPostgres,
+  tick,
+  usePostgresReceiver,
+} from "./util";
+
+describeWithPostgres("timezone", () => {
+  const received: string[] = [];
+
+  const makeClient = usePostgresReceiver((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      received.push(body);
+      res.end();
+    });
+  });
+
+  const db = new Client({ connectionString: databaseUrl });
+
+  beforeAll(async () => {
+    await db.connect();
+  });
+
+  afterAll(async () => {
+    await db.end();
+  });
+
+  test("cron jobs are scheduled in their time zone", async () => {
+    const quirrel = makeClient("timezone");
+
+    const job = await quirrel.enqueue("", {
+      id: "berlin",
+      repeat: { cron: "0 9 * * *", timezone: "Europe/Berlin" },
+    });
+
+    expect(job.runAt).toEqual(cron(new Date(), "0 9 * * *", "Europe/Berlin"));
+
+    await quirrel.delete("berlin");
+  });
+
+  test("cron jobs in a time zone have a run history", async () => {
+    const quirrel = makeClient("timezone");
+
+    await quirrel.enqueue("", {
+      id: "history",
+      repeat: { cron: "0 9 * * *", timezone: "Europe/Berlin" },
+    });
+
+    await quirrel.invoke("history");
+
+    await tick();
+
+    expect(received).toHaveLength(1);
+
+    const [run] = await quirrel.getRuns("history");
+    expect(run.jobId).toBe("history");
+    expect(run.succeeded).toBe(true);
+
+    await quirrel.delete("history");
+    received.length = 0;
+  });
+
+  test("cron jobs can't be delayed", async () => {
+    const quirrel = makeClient("timezone");
+
+    for (const timezone of ["UTC", "Europe/Berlin"]) {
+      await expect(
+        quirrel.enqueue("", {
+          id: "delayed",
+          delay: "1d",
+          repeat: { cron: "0 9 * * *", timezone },
+        })
+      ).rejects.toThrow("aren't supported for cron jobs on Postgres");
+    }
+
+    expect(await quirrel.getById("delayed")).toBeNull();
+  });
+
+  test("syntax the database doesn't understand is rejected", async () => {
+    const quirrel = makeClient("timezone");
+
+    for (const expression of ["0 0 L * *", "@daily"]) {
+      await expect(
+        quirrel.enqueue("", {
+          id: "unsupported",
+          repeat: { cron: expression, timezone: "Europe/Berlin" },
+        })
+      ).rejects.toThrow("isn't supported on Postgres");
+    }
+
+    expect(await quirrel.getById("unsupported")).toBeNull();
+  });
+
+  test("a job that raises doesn't hold up the tick", async () => {
+    const quirrel = makeClient("tick");
+
+    const { endpoint } = await quirrel.enqueue("due", { id: "due" });
+
+    // stored by an earlier version, before expressions were checked
+    await db.query(
+      `
+      insert into quirrel.jobs (endpoint, id, body, run_at, schedule_type, schedule_meta, timezone)
+      values ($1, 'broken', '', now() - interval '1 hour', 'cron', '0 0 L * *', 'Europe/Berlin')
+      `,
+      [endpoint]
+    );
+
+    await db.query(`call quirrel.tick()`);
+
+    expect(received).toHaveLength(1);
+    expect(await quirrel.getById("due")).toBeNull();
+    expect(await quirrel.getById("broken")).not.toBeNull();
+
+    await quirrel.delete("broken");
+  });
+});
@@ -1,6 +1,8 @@
 import { EventEmitter } from "events";
-import type * as http from "http";
-import type { AddressInfo } from "ws";
+import * as http from "http";
+import type { AddressInfo } from "net";
+import { Client } from "pg";
+import { DefaultJobOptions, QuirrelClient, QuirrelJobHandler } from "..";
 
 export type Backend = "Mock" | "Redis";
 
@@ -19,6 +21,87 @@ export function describeAcrossBackends(
   });
 }
 
+export const databaseUrl = process.env.QUIRREL_DATABASE_URL;
+
+export const describeWithPostgres = databaseUrl ? describe : describe.skip;
+
+export const testWithPostgres = databaseUrl ? test : test.skip;
+
+/**
+ * Host that Postgres reaches receivers under,
+ * e.g. host.docker.internal if it runs in a container.
+ */
+const receiverHost = process.env.QUIRREL_TEST_RECEIVER_HOST ?? "127.0.0.1";
+
+interface PostgresClientOptions<T> {
+  applicationBaseUrl?: string;
+  handler?: QuirrelJobHandler<T>;
+  defaultJobOptions?: DefaultJobOptions;
+  encryptionSecret?: string;
+  token?: string;
+}
+
+export function makePostgresClient<T = string>(
+  route: string,
+  {
+    applicationBaseUrl = `http://${receiverHost}`,
+    handler = async () => {},
+    defaultJobOptions,
+    encryptionSecret,
+    token,
+  }: PostgresClientOptions<T> = {}
+) {
+  return new QuirrelClient<T>({
+    route,
+    handler,
+    defaultJobOptions,
+    config: { applicationBaseUrl, encryptionSecret, token, databaseUrl },
+  });
+}
+
+/**
+ * Executes invoked and due jobs, like pg_cron does every minute.
+ */
+export async function tick() {
+  const db = new Client({ connectionString: databaseUrl });
+  await db.connect();
+
+  try {
+    await db.query("call quirrel.tick()");
+  } finally {
+    await db.end();
+  }
+}
+
+/**
+ * Starts a server that Postgres delivers jobs to,
+ * for as long as the surrounding describe block runs.
+ * @returns a function creating clients whose jobs are delivered to it.
+ */
+export function usePostgresReceiver(listener: http.RequestListener) {
+  const receiver = http.createServer(listener);
+
+  beforeAll((done) => {
+    receiver.listen(0, done);
+  });
+
+  afterAll((done) => {
+    receiver.close(done);
+  });
+
+  return function makeClient<T = string>(
+    route: string,
+    options: PostgresClientOptions<T> = {}
+  ) {
+    const { port } = receiver.address() as AddressInfo;
+
+    return makePostgresClient<T>(route, {
+      applicationBaseUrl: `http://${receiverHost}:${port}`,
+      ...options,
+    });
+  };
+}
+
 type Signal = ((key?: string) => Promise<void>) & {
   signal(key?: string): void;
 };
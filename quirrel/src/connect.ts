@@ -6,6 +6,7 @@ import {
   EnqueueJobOptions,
   Job,
   QuirrelPublishClient,
+  CronSchedule,
 } from "./client";
 import bodyParser from "body-parser";
 
@@ -53,17 +54,23 @@ export function Queue<Payload>(
 
   server.enqueue = (payload, options) => quirrel.enqueue(payload, options);
   server.enqueueMany = (jobs) => quirrel.enqueueMany(jobs);
-  server.get = () => quirrel.get();
+  server.get = (opts) => quirrel.get(opts);
   server.delete = (id) => quirrel.delete(id);
-  server.getById = (id) => quirrel.getById(id);
+  server.getById = (id, opts) => quirrel.getById(id, opts);
+  server.getRuns = (id, opts) => quirrel.getRuns(id, opts);
   server.invoke = (id) => quirrel.invoke(id);
+  server.pause = (id) => quirrel.pause(id);
+  server.resume = (id) => quirrel.resume(id);
+  server.getFailed = () => quirrel.getFailed();
+  server.retryFailed = (id) => quirrel.retryFailed(id);
+  server.discardFailed = (id) => quirrel.discardFailed(id);
 
   return server;
 }
 
 export function CronJob(
   route: string,
-  cronSchedule: string,
+  cronSchedule: CronSchedule,
   handler: () => Promise<void>
 ) {
   return Queue(route, handler) as unknown;
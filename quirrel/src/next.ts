@@ -5,6 +5,10 @@ import {
   DefaultJobOptions,
   QuirrelJobHandler,
   QuirrelPublishClient,
+  CronSchedule,
+  GetOptions,
+  GetRunsOptions,
+  OccurrencesOptions,
 } from "./client";
 import { registerDevelopmentDefaults } from "./client/config";
 import type { IncomingHttpHeaders } from "http";
@@ -26,8 +30,7 @@ registerDevelopmentDefaults({
   applicationBaseUrl: "http://localhost:3000",
 });
 
-export type Queue<Payload> = QuirrelPublishClient<Payload>
->;
+export type Queue<Payload> = QuirrelPublishClient<Payload>;
 
 export function Queue<Payload>(
   route: string,
@@ -60,16 +63,32 @@ export function Queue<Payload>(
 
   nextApiHandler.invoke = (jobId: string) => quirrel.invoke(jobId);
 
-  nextApiHandler.get = () => quirrel.get();
+  nextApiHandler.pause = (jobId: string) => quirrel.pause(jobId);
 
-  nextApiHandler.getById = (jobId: string) => quirrel.getById(jobId);
+  nextApiHandler.resume = (jobId: string) => quirrel.resume(jobId);
+
+  nextApiHandler.get = (opts?: GetOptions & OccurrencesOptions) =>
+    quirrel.get(opts);
+
+  nextApiHandler.getById = (jobId: string, opts?: OccurrencesOptions) =>
+    quirrel.getById(jobId, opts);
+
+  nextApiHandler.getRuns = (jobId: string, opts?: GetRunsOptions) =>
+    quirrel.getRuns(jobId, opts);
+
+  nextApiHandler.getFailed = () => quirrel.getFailed();
+
+  nextApiHandler.retryFailed = (jobId: string) => quirrel.retryFailed(jobId);
+
+  nextApiHandler.discardFailed = (jobId: string) =>
+    quirrel.discardFailed(jobId);
 
   return nextApiHandler;
 }
 
 export function CronJob(
   route: string,
-  cronSchedule: string,
+  cronSchedule: CronSchedule,
   handler: () => Promise<void>
 ) {
   return Queue(route, handler) as unknown;
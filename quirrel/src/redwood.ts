@@ -5,6 +5,10 @@ import {
   DefaultJobOptions,
   QuirrelJobHandler,
   QuirrelPublishClient,
+  CronSchedule,
+  GetOptions,
+  GetRunsOptions,
+  OccurrencesOptions,
 } from "./client";
 import { registerDevelopmentDefaults } from "./client/config";
 
@@ -61,16 +65,32 @@ export function Queue<Payload>(
 
   redwoodHandler.invoke = (jobId: string) => quirrel.invoke(jobId);
 
-  redwoodHandler.get = () => quirrel.get();
+  redwoodHandler.pause = (jobId: string) => quirrel.pause(jobId);
 
-  redwoodHandler.getById = (jobId: string) => quirrel.getById(jobId);
+  redwoodHandler.resume = (jobId: string) => quirrel.resume(jobId);
+
+  redwoodHandler.get = (opts?: GetOptions & OccurrencesOptions) =>
+    quirrel.get(opts);
+
+  redwoodHandler.getById = (jobId: string, opts?: OccurrencesOptions) =>
+    quirrel.getById(jobId, opts);
+
+  redwoodHandler.getRuns = (jobId: string, opts?: GetRunsOptions) =>
+    quirrel.getRuns(jobId, opts);
+
+  redwoodHandler.getFailed = () => quirrel.getFailed();
+
+  redwoodHandler.retryFailed = (jobId: string) => quirrel.retryFailed(jobId);
+
+  redwoodHandler.discardFailed = (jobId: string) =>
+    quirrel.discardFailed(jobId);
 
   return redwoodHandler;
 }
 
 export function CronJob(
   route: string,
-  cronSchedule: string,
+  cronSchedule: CronSchedule,
   handler: () => Promise<void>
 ) {
   return Queue(route, handler) as unknown;
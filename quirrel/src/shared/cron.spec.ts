@@ -0,0 +1,25 @@
+import { cron, isValidTimezone } from "./cron";
+
+describe(cron.name, () => {
+  test("defaults to UTC", () => {
+    expect(
+      cron(new Date("2021-03-27T12:00:00Z"), "0 9 * * *").toISOString()
+    ).toBe("2021-03-28T09:00:00.000Z");
+  });
+
+  test("follows daylight saving time", () => {
+    const beforeDST = new Date("2021-03-27T12:00:00Z");
+    const firstRun = cron(beforeDST, "0 9 * * *", "Europe/Berlin");
+    const secondRun = cron(firstRun, "0 9 * * *", "Europe/Berlin");
+
+    expect(firstRun.toISOString()).toBe("2021-03-28T07:00:00.000Z");
+    expect(secondRun.toISOString()).toBe("2021-03-29T07:00:00.000Z");
+  });
+});
+
+test(isValidTimezone.name, () => {
+  expect(isValidTimezone("Europe/Berlin")).toBe(true);
+  expect(isValidTimezone("UTC")).toBe(true);
+  expect(isValidTimezone("Europe/Atlantis")).toBe(false);
+  expect(isValidTimezone("hello world")).toBe(false);
+});
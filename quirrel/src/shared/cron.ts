@@ -0,0 +1,30 @@
+import cronParser from "cron-parser";
+
+/**
+ * Computes the first execution of a cron expression after `lastDate`.
+ * @param timezone IANA time zone the expression is evaluated in, defaults to UTC.
+ */
+export function cron(
+  lastDate: Date,
+  cronExpression: string,
+  timezone?: string
+): Date {
+  const expr = cronParser.parseExpression(cronExpression, {
+    utc: !timezone,
+    tz: timezone,
+    currentDate: lastDate,
+  });
+
+  const nextExecution = expr.next().toDate();
+
+  return nextExecution;
+}
+
+export function isValidTimezone(timezone: string) {
+  try {
+    cron(new Date(), "* * * * *", timezone);
+    return true;
+  } catch (error) {
+    return false;
+  }
+}
@@ -5,6 +5,10 @@ import {
   DefaultJobOptions,
   QuirrelJobHandler,
   QuirrelPublishClient,
+  CronSchedule,
+  GetOptions,
+  GetRunsOptions,
+  OccurrencesOptions,
 } from "./client";
 import { registerDevelopmentDefaults } from "./client/config";
 
@@ -63,16 +67,31 @@ export function Queue<Payload>(
 
   svelteHandler.invoke = (jobId: string) => quirrel.invoke(jobId);
 
-  svelteHandler.get = () => quirrel.get();
+  svelteHandler.pause = (jobId: string) => quirrel.pause(jobId);
 
-  svelteHandler.getById = (jobId: string) => quirrel.getById(jobId);
+  svelteHandler.resume = (jobId: string) => quirrel.resume(jobId);
+
+  svelteHandler.get = (opts?: GetOptions & OccurrencesOptions) =>
+    quirrel.get(opts);
+
+  svelteHandler.getById = (jobId: string, opts?: OccurrencesOptions) =>
+    quirrel.getById(jobId, opts);
+
+  svelteHandler.getRuns = (jobId: string, opts?: GetRunsOptions) =>
+    quirrel.getRuns(jobId, opts);
+
+  svelteHandler.getFailed = () => quirrel.getFailed();
+
+  svelteHandler.retryFailed = (jobId: string) => quirrel.retryFailed(jobId);
+
+  svelteHandler.discardFailed = (jobId: string) => quirrel.discardFailed(jobId);
 
   return svelteHandler;
 }
 
 export function CronJob(
   route: string,
-  cronSchedule: string,
+  cronSchedule: CronSchedule,
   handler: () => Promise<void>
 ) {
   return Queue(route, handler) as unknown;